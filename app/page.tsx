@@ -3,32 +3,40 @@
 import { useState, useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useGameStore } from '@/lib/game-store';
-import type { ServerToClientEvents, ClientToServerEvents, RoomSettings, GamePhase } from '@/types/game';
+import type { ServerToClientEvents, ClientToServerEvents, RoomSettings, RoomVisibility, CreateRoomOptions, GamePhase, PlayerSession, JoinError } from '@/types/game';
 import Lobby from '@/components/Lobby';
 import GameBoard from '@/components/GameBoard';
 import RevealScreen from '@/components/RevealScreen';
 import Modal, { ModalType } from '@/components/Modal';
 import AdBanner from '@/components/AdBanner';
-import { Sparkles, Users, LogIn } from 'lucide-react';
+import { DEFAULT_PACK_ID, QUESTION_PACKS } from '@/lib/question-packs';
+import RoomBrowser from '@/components/RoomBrowser';
+import { Sparkles, Users, LogIn, Globe, Zap } from 'lucide-react';
 
 let socket: Socket<ServerToClientEvents, ClientToServerEvents>;
 
 // Session storage keys
 const SESSION_KEY = 'blindstory_session';
+// Local storage key for the device id (shared by every tab, kept across visits)
+const DEVICE_KEY = 'blindstory_device';
+// Without any input for this long the player shows as away to the room
+const IDLE_AFTER_MS = 2 * 60 * 1000;
 
 interface StoredSession {
     roomCode: string;
     playerId: string;
+    reconnectToken: string;
     playerName: string;
     view: 'home' | 'lobby' | 'game' | 'reveal';
     timestamp: number;
 }
 
 // Save session to sessionStorage (tab-specific)
-function saveSession(roomCode: string, playerId: string, playerName: string, view: 'home' | 'lobby' | 'game' | 'reveal') {
+function saveSession(roomCode: string, playerSession: PlayerSession, playerName: string, view: 'home' | 'lobby' | 'game' | 'reveal') {
     const session: StoredSession = {
         roomCode,
-        playerId,
+        playerId: playerSession.playerId,
+        reconnectToken: playerSession.reconnectToken,
         playerName,
         view,
         timestamp: Date.now()
@@ -36,6 +44,13 @@ function saveSession(roomCode: string, playerId: string, playerName: string, vie
     sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
 }
 
+// Screen to show for a room's phase (voting happens on the reveal screen)
+function viewForPhase(phase: GamePhase): 'lobby' | 'game' | 'reveal' {
+    if (phase === 'lobby') return 'lobby';
+    if (phase === 'playing') return 'game';
+    return 'reveal';
+}
+
 // Get session from sessionStorage (valid for 30 minutes)
 function getSession(): StoredSession | null {
     try {
@@ -61,12 +76,74 @@ function clearSession() {
     sessionStorage.removeItem(SESSION_KEY);
 }
 
+// Get this browser's device id from localStorage, creating it on first use
+function getDeviceId(): string | undefined {
+    try {
+        let deviceId = localStorage.getItem(DEVICE_KEY);
+        if (!deviceId) {
+            deviceId = crypto.randomUUID();
+            localStorage.setItem(DEVICE_KEY, deviceId);
+        }
+        return deviceId;
+    } catch {
+        return undefined;
+    }
+}
+
+// Longest room code the server hands out or accepts (host-chosen codes included)
+const MAX_ROOM_CODE_LENGTH = 10;
+
+// What to tell the player when joining a room fails
+const JOIN_ERRORS: Record<JoinError, { title: string; message: string }> = {
+    'room-not-found': {
+        title: 'Room Not Found',
+        message: 'This room does not exist. Please check the room code and try again.'
+    },
+    'room-full': {
+        title: 'Room Full',
+        message: 'This room has reached its maximum capacity. Please try another room or wait for a spot to open up.'
+    },
+    'name-taken': {
+        title: 'Name Taken',
+        message: 'Someone in this room already has that name. Please choose a different name.'
+    },
+    'banned': {
+        title: 'Banned',
+        message: 'You have been banned from this room by the host.'
+    },
+    'passphrase-required': {
+        title: 'Passphrase Required',
+        message: 'This room is private. Enter its passphrase to join.'
+    },
+    'wrong-passphrase': {
+        title: 'Wrong Passphrase',
+        message: 'That passphrase is not right. Please check it with the host and try again.'
+    },
+    'too-many-attempts': {
+        title: 'Too Many Attempts',
+        message: 'Too many passphrase attempts. Please wait a minute and try again.'
+    },
+    'invalid-session': {
+        title: 'Session Expired',
+        message: 'Your session for this room is no longer valid. Please join again.'
+    },
+    'failed': {
+        title: 'Could Not Join',
+        message: 'Failed to join room. Please try again.'
+    }
+};
+
 export default function Home() {
     const [view, setView] = useState<'home' | 'lobby' | 'game' | 'reveal'>('home');
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [showJoinModal, setShowJoinModal] = useState(false);
+    const [showRoomBrowser, setShowRoomBrowser] = useState(false);
+    const [showQuickPlayModal, setShowQuickPlayModal] = useState(false);
+    const [joinCode, setJoinCode] = useState('');
+    const [askPassphrase, setAskPassphrase] = useState(false);
     const [isReconnecting, setIsReconnecting] = useState(false);
     const hasAttemptedRejoin = useRef(false);
+    const playerSessionRef = useRef<PlayerSession | null>(null);
     const [modalState, setModalState] = useState<{
         isOpen: boolean;
         type: ModalType;
@@ -74,12 +151,14 @@ export default function Home() {
         message: string;
     }>({ isOpen: false, type: 'error', message: '' });
 
-    const { setConnected, setPlayer, setRoom, setError, room, playerId, playerName } = useGameStore();
+    const { setConnected, setPlayer, setRoom, setError, setPreviousAnswer, room, playerId, playerName, isConnected } = useGameStore();
+    const roomCode = room?.code;
 
     // Save session when view or room changes
     useEffect(() => {
-        if (room && playerId && playerName && view !== 'home') {
-            saveSession(room.code, playerId, playerName, view);
+        const playerSession = playerSessionRef.current;
+        if (room && playerSession && playerId === playerSession.playerId && playerName && view !== 'home') {
+            saveSession(room.code, playerSession, playerName, view);
         }
     }, [room, playerId, playerName, view]);
 
@@ -92,12 +171,19 @@ export default function Home() {
             reconnectionAttempts: 10,
             reconnectionDelay: 1000,
             reconnectionDelayMax: 5000,
+            // Present the reconnect token on every (re)connect so the server can verify our seat
+            auth: (cb) => {
+                const session = getSession();
+                const deviceId = getDeviceId();
+                cb(session
+                    ? { roomCode: session.roomCode, playerId: session.playerId, reconnectToken: session.reconnectToken, deviceId }
+                    : { deviceId });
+            },
         });
 
         socket.on('connect', () => {
             console.log('Connected to server');
             setConnected(true);
-            setPlayer(socket.id!, '');
 
             // Try to rejoin if we have a stored session
             const session = getSession();
@@ -106,29 +192,34 @@ export default function Home() {
                 setIsReconnecting(true);
                 console.log('Attempting to rejoin room:', session.roomCode);
 
-                socket.emit('rejoin-room', session.roomCode, session.playerId, session.playerName, (success, updatedRoom, error) => {
+                socket.emit('rejoin-room', session.roomCode, session.playerId, session.playerName, (success, updatedRoom, error, newSession) => {
                     setIsReconnecting(false);
                     if (success && updatedRoom) {
                         console.log('Rejoined room successfully');
+                        // A new session is issued if we had been removed and joined again as a new player
+                        const playerSession = newSession ?? { playerId: session.playerId, reconnectToken: session.reconnectToken };
+                        playerSessionRef.current = playerSession;
                         setRoom(updatedRoom);
-                        setPlayer(socket.id!, session.playerName);
+                        setPlayer(playerSession.playerId, session.playerName);
 
                         // Restore the appropriate view based on game phase
-                        const phase: GamePhase = updatedRoom.gameState.phase;
-                        if (phase === 'lobby') {
-                            setView('lobby');
-                        } else if (phase === 'playing') {
-                            setView('game');
-                        } else if (phase === 'reveal') {
-                            setView('reveal');
-                        }
+                        const restoredView = viewForPhase(updatedRoom.gameState.phase);
+                        setView(restoredView);
 
-                        // Update session with new socket ID
-                        saveSession(session.roomCode, socket.id!, session.playerName, phase === 'lobby' ? 'lobby' : phase === 'playing' ? 'game' : 'reveal');
+                        saveSession(session.roomCode, playerSession, session.playerName, restoredView);
                     } else {
                         console.log('Failed to rejoin:', error);
                         clearSession();
                         setView('home');
+                        if (error === 'banned') {
+                            setModalState({ isOpen: true, type: 'error', ...JOIN_ERRORS.banned });
+                        } else if (error === 'passphrase-required') {
+                            // Our seat is gone and the room is private, so join it again with the passphrase
+                            setJoinCode(session.roomCode);
+                            setAskPassphrase(true);
+                            setShowJoinModal(true);
+                            setModalState({ isOpen: true, type: 'alert', ...JOIN_ERRORS['passphrase-required'] });
+                        }
                     }
                 });
             }
@@ -147,10 +238,13 @@ export default function Home() {
 
         socket.on('game-started', (updatedRoom) => {
             setRoom(updatedRoom);
+            setPreviousAnswer(null);
             setView('game');
         });
 
-
+        socket.on('your-turn', (_question, _deadline, previousAnswer) => {
+            setPreviousAnswer(previousAnswer ?? null);
+        });
 
         socket.on('waiting-for-others', () => {
             // Player has submitted, waiting for others
@@ -197,14 +291,32 @@ export default function Home() {
         });
 
 
-        socket.on('kicked', () => {
+        socket.on('kicked', (banned) => {
             clearSession();
             setView('home');
             setModalState({
                 isOpen: true,
                 type: 'error',
-                title: 'Removed from Room',
-                message: 'You have been removed from the room by the host.'
+                title: banned ? 'Banned from Room' : 'Removed from Room',
+                message: banned
+                    ? "You have been banned from the room by the host and can't join it again."
+                    : 'You have been removed from the room by the host.'
+            });
+        });
+
+        socket.on('host-changed', (hostId, reason) => {
+            // Only the new host needs telling; everyone sees the crown move with the room update
+            if (hostId !== useGameStore.getState().playerId || reason === 'returned') return;
+
+            setModalState({
+                isOpen: true,
+                type: 'info',
+                title: "You're the Host",
+                message: reason === 'transfer'
+                    ? 'The host handed the room over to you.'
+                    : reason === 'disconnected'
+                        ? "The host lost connection, so you're in charge until they're back."
+                        : 'The host left, so the room is yours now.'
             });
         });
 
@@ -219,73 +331,136 @@ export default function Home() {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
-    const handleCreateRoom = (name: string, settings: RoomSettings) => {
-        socket.emit('create-room', name, settings, (roomCode, roomData) => {
-            if (roomCode && roomData) {
-                setPlayer(socket.id!, name);
+    // Tell the room when we switch tabs or go idle, and when we're back.
+    // A (re)connect starts us as present on the server, so start over then too.
+    useEffect(() => {
+        if (!roomCode || !playerId || !isConnected) return;
+
+        let away = false;
+        let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const report = (nowAway: boolean) => {
+            if (nowAway === away) return;
+            away = nowAway;
+            socket.emit('set-away', away);
+        };
+
+        const onActivity = () => {
+            clearTimeout(idleTimer);
+            if (document.hidden) return;
+            report(false);
+            idleTimer = setTimeout(() => report(true), IDLE_AFTER_MS);
+        };
+
+        const onVisibilityChange = () => {
+            if (document.hidden) {
+                clearTimeout(idleTimer);
+                report(true);
+            } else {
+                onActivity();
+            }
+        };
+
+        const activityEvents = ['pointerdown', 'keydown', 'scroll'] as const;
+        activityEvents.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        onVisibilityChange();
+
+        return () => {
+            clearTimeout(idleTimer);
+            activityEvents.forEach(event => window.removeEventListener(event, onActivity));
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+        };
+    }, [roomCode, playerId, isConnected]);
+
+    const handleCreateRoom = (name: string, settings: RoomSettings, options: CreateRoomOptions) => {
+        socket.emit('create-room', name, settings, options, (roomCode, roomData, playerSession, error) => {
+            if (roomCode && roomData && playerSession) {
+                playerSessionRef.current = playerSession;
+                setPlayer(playerSession.playerId, name);
                 setRoom(roomData);  // Set room immediately from callback
                 setShowCreateModal(false);
                 setView('lobby');
                 // Session will be saved by the useEffect when room is updated
             } else {
-                setError('Failed to create room');
-                setTimeout(() => setError(null), 3000);
+                // Keep the form open, e.g. to pick another room code
+                setModalState({
+                    isOpen: true,
+                    type: 'error',
+                    title: 'Could Not Create Room',
+                    message: error || 'Failed to create room'
+                });
             }
         });
     };
 
-    const handleJoinRoom = (roomCode: string, name: string) => {
-        socket.emit('join-room', roomCode, name, (success, error) => {
-            if (success) {
-                setPlayer(socket.id!, name);
-                setShowJoinModal(false);
-                setView('lobby');
+    const handleJoinRoom = (roomCode: string, name: string, passphrase: string | null) => {
+        socket.emit('join-room', roomCode, name, passphrase, (success, error, playerSession, joinedRoom) => {
+            if (success && playerSession) {
+                playerSessionRef.current = playerSession;
+                setPlayer(playerSession.playerId, name);
+                closeJoinModal();
+                if (joinedRoom) {
+                    setRoom(joinedRoom);
+                }
+                // Mid-game joiners watch the current round until the next one starts
+                setView(joinedRoom ? viewForPhase(joinedRoom.gameState.phase) : 'lobby');
                 // Session will be saved by the useEffect when room is updated
             } else {
-                const errorMsg = error || 'Failed to join room';
-
-                // Show modal for specific errors
-                if (errorMsg.toLowerCase().includes('full')) {
-                    setShowJoinModal(false);
-                    setModalState({
-                        isOpen: true,
-                        type: 'error',
-                        title: 'Room Full',
-                        message: 'This room has reached its maximum capacity. Please try another room or wait for a spot to open up.'
-                    });
-                } else if (errorMsg.toLowerCase().includes('not found') || errorMsg.toLowerCase().includes('exist')) {
-                    setShowJoinModal(false);
-                    setModalState({
-                        isOpen: true,
-                        type: 'error',
-                        title: 'Room Not Found',
-                        message: 'This room does not exist. Please check the room code and try again.'
-                    });
-                } else if (errorMsg.toLowerCase().includes('progress')) {
-                    setShowJoinModal(false);
-                    setModalState({
-                        isOpen: true,
-                        type: 'info',
-                        title: 'Game In Progress',
-                        message: 'This game has already started. Please wait for the next round or try another room.'
-                    });
-                } else if (errorMsg.toLowerCase().includes('duplicate') || errorMsg.toLowerCase().includes('name')) {
-                    setModalState({
-                        isOpen: true,
-                        type: 'alert',
-                        title: 'Name Taken',
-                        message: 'Someone in this room already has that name. Please choose a different name.'
-                    });
+                const joinError = error ?? 'failed';
+                const fixable = joinError === 'name-taken' || joinError === 'passphrase-required' || joinError === 'wrong-passphrase' || joinError === 'too-many-attempts';
+
+                // A taken name or a missing passphrase can be fixed in the join form, so keep it open
+                if (fixable) {
+                    setJoinCode(roomCode);
+                    if (joinError !== 'name-taken') setAskPassphrase(true);
                 } else {
-                    setError(errorMsg);
-                    setTimeout(() => setError(null), 3000);
+                    closeJoinModal();
                 }
+                setModalState({
+                    isOpen: true,
+                    type: fixable ? 'alert' : 'error',
+                    ...JOIN_ERRORS[joinError]
+                });
+            }
+        });
+    };
+
+    const handleQuickPlay = (name: string) => {
+        // Players are matched with others playing in their browser's language
+        socket.emit('quick-play', name, navigator.language, (success, error, playerSession, joinedRoom) => {
+            if (success && playerSession && joinedRoom) {
+                playerSessionRef.current = playerSession;
+                setPlayer(playerSession.playerId, name);
+                setRoom(joinedRoom);
+                setShowQuickPlayModal(false);
+                setView('lobby');
+            } else {
+                setShowQuickPlayModal(false);
+                setModalState({
+                    isOpen: true,
+                    type: 'error',
+                    ...JOIN_ERRORS[error ?? 'failed']
+                });
             }
         });
     };
 
+    const openJoinModal = (roomCode = '') => {
+        setJoinCode(roomCode);
+        setAskPassphrase(false);
+        setShowRoomBrowser(false);
+        setShowJoinModal(true);
+    };
+
+    const closeJoinModal = () => {
+        setShowJoinModal(false);
+        setAskPassphrase(false);
+    };
+
     const handleLeaveRoom = () => {
         // Reset game store
+        playerSessionRef.current = null;
         setRoom(null);
         setPlayer('', '');
 
@@ -408,7 +583,7 @@ export default function Home() {
                     </button>
 
                     <button
-                        onClick={() => setShowJoinModal(true)}
+                        onClick={() => openJoinModal()}
                         className="group relative overflow-hidden rounded-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 animate-fadeIn"
                         style={{ animationDelay: '0.8s' }}
                     >
@@ -425,6 +600,24 @@ export default function Home() {
                     </button>
                 </div>
 
+                {/* Quick play and public rooms */}
+                <div className="flex flex-wrap justify-center gap-3 -mt-3 md:-mt-8 mb-6 md:mb-12 animate-fadeIn" style={{ animationDelay: '0.85s' }}>
+                    <button
+                        onClick={() => setShowQuickPlayModal(true)}
+                        className="btn-primary flex items-center gap-2 px-6 py-3 font-bold"
+                    >
+                        <Zap className="w-5 h-5" />
+                        Play Now
+                    </button>
+                    <button
+                        onClick={() => setShowRoomBrowser(true)}
+                        className="btn-secondary flex items-center gap-2 px-6 py-3"
+                    >
+                        <Globe className="w-5 h-5" />
+                        Browse Public Rooms
+                    </button>
+                </div>
+
                 {/* Product Hunt Badge */}
                 <div className="flex justify-center mb-4 md:mb-12 animate-fadeIn" style={{ animationDelay: '0.9s' }}>
                     <a
@@ -516,11 +709,30 @@ export default function Home() {
                 {/* Join Room Modal */}
                 {showJoinModal && (
                     <JoinRoomModal
-                        onClose={() => setShowJoinModal(false)}
+                        initialCode={joinCode}
+                        askPassphrase={askPassphrase}
+                        onClose={closeJoinModal}
                         onJoin={handleJoinRoom}
                     />
                 )}
 
+                {/* Quick Play Modal */}
+                {showQuickPlayModal && (
+                    <QuickPlayModal
+                        onClose={() => setShowQuickPlayModal(false)}
+                        onPlay={handleQuickPlay}
+                    />
+                )}
+
+                {/* Public Room Browser */}
+                {showRoomBrowser && (
+                    <RoomBrowser
+                        socket={socket}
+                        onClose={() => setShowRoomBrowser(false)}
+                        onJoin={openJoinModal}
+                    />
+                )}
+
                 {/* Modal */}
                 <Modal
                     isOpen={modalState.isOpen}
@@ -534,17 +746,26 @@ export default function Home() {
     );
 }
 
+const VISIBILITY_OPTIONS: { value: RoomVisibility; label: string; description: string }[] = [
+    { value: 'private', label: '🔒 Private', description: 'Join by code' },
+    { value: 'public', label: '🌍 Public', description: 'Listed for anyone' },
+];
+
 // Create Room Modal Component
 function CreateRoomModal({
     onClose,
     onCreate,
 }: {
     onClose: () => void;
-    onCreate: (name: string, settings: RoomSettings) => void;
+    onCreate: (name: string, settings: RoomSettings, options: CreateRoomOptions) => void;
 }) {
     const [playerName, setPlayerName] = useState('');
     const [maxPlayers, setMaxPlayers] = useState(8);
     const [timerSeconds, setTimerSeconds] = useState(60);
+    const [packId, setPackId] = useState(DEFAULT_PACK_ID);
+    const [visibility, setVisibility] = useState<RoomVisibility>('private');
+    const [passphrase, setPassphrase] = useState('');
+    const [customCode, setCustomCode] = useState('');
 
     const timerOptions = [
         { value: 30, label: '30s' },
@@ -560,6 +781,17 @@ function CreateRoomModal({
                 maxPlayers,
                 language: 'en',
                 timerSeconds,
+                packId,
+                voteSeconds: 30,
+                voteTieBreak: 'share',
+                parallelGroups: false,
+                chainMode: false,
+                autoStart: false,
+                hostSuccession: 'longest-present',
+                visibility,
+            }, {
+                passphrase: visibility === 'private' && passphrase.trim() ? passphrase : null,
+                code: customCode.trim() || null,
             });
         }
     };
@@ -625,6 +857,79 @@ function CreateRoomModal({
                             </div>
                         </div>
 
+                        {/* Question pack selection */}
+                        <div>
+                            <label className="block text-sm font-semibold mb-3 text-gray-300">
+                                📚 Question Pack
+                            </label>
+                            <div className="grid grid-cols-3 gap-2">
+                                {QUESTION_PACKS.map((pack) => (
+                                    <button
+                                        key={pack.id}
+                                        type="button"
+                                        onClick={() => setPackId(pack.id)}
+                                        className={`py-3 px-2 rounded-xl font-semibold text-sm transition-all ${packId === pack.id
+                                            ? 'bg-indigo-500 text-white'
+                                            : 'bg-white/5 text-gray-300 hover:bg-white/10 border border-white/10'
+                                            }`}
+                                    >
+                                        {pack.name}
+                                        <span className="block text-xs opacity-70">{pack.slots.length} questions</span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Visibility */}
+                        <div>
+                            <label className="block text-sm font-semibold mb-3 text-gray-300">
+                                🌍 Visibility
+                            </label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {VISIBILITY_OPTIONS.map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        onClick={() => setVisibility(option.value)}
+                                        className={`py-3 px-2 rounded-xl font-semibold text-sm transition-all ${visibility === option.value
+                                            ? 'bg-indigo-500 text-white'
+                                            : 'bg-white/5 text-gray-300 hover:bg-white/10 border border-white/10'
+                                            }`}
+                                    >
+                                        {option.label}
+                                        <span className="block text-xs opacity-70">{option.description}</span>
+                                    </button>
+                                ))}
+                            </div>
+                            {visibility === 'private' && (
+                                <input
+                                    type="password"
+                                    value={passphrase}
+                                    onChange={(e) => setPassphrase(e.target.value)}
+                                    placeholder="Passphrase (optional)"
+                                    className="input-field mt-3"
+                                    maxLength={64}
+                                    autoComplete="off"
+                                />
+                            )}
+                        </div>
+
+                        {/* Custom room code */}
+                        <div>
+                            <label className="block text-sm font-semibold mb-3 text-gray-300">
+                                🏷️ Room Code <span className="text-gray-500 font-normal">(optional)</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={customCode}
+                                onChange={(e) => setCustomCode(e.target.value.toUpperCase())}
+                                placeholder="Random"
+                                className="input-field font-mono tracking-widest"
+                                maxLength={MAX_ROOM_CODE_LENGTH}
+                                autoComplete="off"
+                            />
+                        </div>
+
                         <div className="flex gap-4 pt-2">
                             <button type="button" onClick={onClose} className="btn-secondary flex-1 text-lg py-3">
                                 Cancel
@@ -642,19 +947,24 @@ function CreateRoomModal({
 
 // Join Room Modal Component
 function JoinRoomModal({
+    initialCode,
+    askPassphrase,
     onClose,
     onJoin,
 }: {
+    initialCode: string;
+    askPassphrase: boolean;
     onClose: () => void;
-    onJoin: (roomCode: string, playerName: string) => void;
+    onJoin: (roomCode: string, playerName: string, passphrase: string | null) => void;
 }) {
     const [playerName, setPlayerName] = useState('');
-    const [roomCode, setRoomCode] = useState('');
+    const [roomCode, setRoomCode] = useState(initialCode);
+    const [passphrase, setPassphrase] = useState('');
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (playerName.trim() && roomCode.trim()) {
-            onJoin(roomCode.toUpperCase(), playerName);
+            onJoin(roomCode.toUpperCase(), playerName, askPassphrase && passphrase.trim() ? passphrase : null);
         }
     };
 
@@ -686,13 +996,30 @@ function JoinRoomModal({
                                 value={roomCode}
                                 onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
                                 placeholder="XXXXXX"
-                                className="input-field text-center text-4xl tracking-[0.5em] font-mono font-bold bg-gradient-to-br from-white/10 to-white/5"
-                                maxLength={6}
+                                className="input-field text-center text-3xl tracking-[0.3em] font-mono font-bold bg-gradient-to-br from-white/10 to-white/5"
+                                maxLength={MAX_ROOM_CODE_LENGTH}
                                 required
                             />
-                            <p className="text-xs text-gray-500 text-center mt-2">Enter the 6-character room code</p>
+                            <p className="text-xs text-gray-500 text-center mt-2">Enter the room code from the host</p>
                         </div>
 
+                        {askPassphrase && (
+                            <div>
+                                <label className="block text-sm font-semibold mb-3 text-gray-300">🔒 Passphrase</label>
+                                <input
+                                    type="password"
+                                    value={passphrase}
+                                    onChange={(e) => setPassphrase(e.target.value)}
+                                    placeholder="Ask the host for it"
+                                    className="input-field text-lg"
+                                    maxLength={64}
+                                    autoComplete="off"
+                                    required
+                                    autoFocus
+                                />
+                            </div>
+                        )}
+
                         <div className="flex gap-4 pt-2">
                             <button type="button" onClick={onClose} className="btn-secondary flex-1 text-lg py-3">
                                 Cancel
@@ -707,3 +1034,61 @@ function JoinRoomModal({
         </div>
     );
 }
+
+// Quick Play Modal Component
+function QuickPlayModal({
+    onClose,
+    onPlay,
+}: {
+    onClose: () => void;
+    onPlay: (playerName: string) => void;
+}) {
+    const [playerName, setPlayerName] = useState('');
+    const [isSearching, setIsSearching] = useState(false);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (playerName.trim() && !isSearching) {
+            setIsSearching(true);
+            onPlay(playerName);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-md flex items-center justify-center p-4 z-50 animate-fadeIn">
+            <div className="relative max-w-md w-full">
+                <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/20 to-pink-500/20 rounded-3xl blur-2xl"></div>
+                <div className="relative glass rounded-3xl p-8 border-2 border-white/10">
+                    <h2 className="text-4xl font-black mb-2 gradient-text text-center">Play Now</h2>
+                    <p className="text-sm text-gray-400 text-center mb-8">
+                        We&apos;ll put you in a public room that needs players, or open one for you
+                    </p>
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                        <div>
+                            <label className="block text-sm font-semibold mb-3 text-gray-300">Your Name</label>
+                            <input
+                                type="text"
+                                value={playerName}
+                                onChange={(e) => setPlayerName(e.target.value)}
+                                placeholder="Enter your name"
+                                className="input-field text-lg"
+                                maxLength={20}
+                                required
+                                autoFocus
+                            />
+                        </div>
+
+                        <div className="flex gap-4 pt-2">
+                            <button type="button" onClick={onClose} className="btn-secondary flex-1 text-lg py-3">
+                                Cancel
+                            </button>
+                            <button type="submit" disabled={isSearching} className="btn-primary flex-1 text-lg py-3 font-bold disabled:opacity-50">
+                                {isSearching ? 'Finding...' : 'Play'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+}
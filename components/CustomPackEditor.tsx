@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { Socket } from 'socket.io-client';
+import type { ServerToClientEvents, ClientToServerEvents, QuestionPack } from '@/types/game';
+import { CUSTOM_PACK_LIMITS } from '@/lib/question-packs';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface CustomPackEditorProps {
+    socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+    initialPack: QuestionPack; // Pre-fills the editor (the room's custom pack or the current pack)
+    onClose: () => void;
+}
+
+export default function CustomPackEditor({ socket, initialPack, onClose }: CustomPackEditorProps) {
+    const [slots, setSlots] = useState(
+        initialPack.slots.map(slot => ({ id: slot.id, label: slot.label, placeholder: slot.placeholder }))
+    );
+    const [template, setTemplate] = useState(initialPack.template);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const updateSlot = (index: number, field: 'id' | 'label' | 'placeholder', value: string) => {
+        setSlots(slots.map((slot, i) => (i === index ? { ...slot, [field]: value } : slot)));
+    };
+
+    const addSlot = () => {
+        setSlots([...slots, { id: `answer${slots.length + 1}`, label: '', placeholder: '' }]);
+    };
+
+    const removeSlot = (index: number) => {
+        setSlots(slots.filter((_, i) => i !== index));
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+
+        // The server validates ids, placeholders and lengths; show its message if it refuses
+        socket.emit('set-custom-pack', { slots, template }, (success, saveError) => {
+            setIsSaving(false);
+            if (success) {
+                onClose();
+            } else {
+                setError(saveError || 'Failed to save questions');
+            }
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-md flex items-center justify-center p-4 z-50 animate-fadeIn">
+            <div className="relative max-w-2xl w-full max-h-full overflow-y-auto">
+                <div className="relative glass rounded-3xl p-6 md:p-8 border-2 border-white/10">
+                    <h2 className="text-3xl font-black mb-2 gradient-text text-center">Custom Questions</h2>
+                    <p className="text-sm text-gray-400 text-center mb-6">
+                        Give each question a placeholder name, then use it as {'{name}'} in the story sentence.
+                    </p>
+                    <form onSubmit={handleSave} className="space-y-4">
+                        {slots.map((slot, index) => (
+                            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                                <input
+                                    type="text"
+                                    value={slot.id}
+                                    onChange={(e) => updateSlot(index, 'id', e.target.value)}
+                                    placeholder="name"
+                                    className="input-field col-span-3 text-sm font-mono"
+                                    maxLength={20}
+                                    required
+                                />
+                                <input
+                                    type="text"
+                                    value={slot.label}
+                                    onChange={(e) => updateSlot(index, 'label', e.target.value)}
+                                    placeholder="What did they shout?"
+                                    className="input-field col-span-4 text-sm"
+                                    maxLength={CUSTOM_PACK_LIMITS.maxLabelLength}
+                                    required
+                                />
+                                <input
+                                    type="text"
+                                    value={slot.placeholder}
+                                    onChange={(e) => updateSlot(index, 'placeholder', e.target.value)}
+                                    placeholder="Hint (optional)"
+                                    className="input-field col-span-4 text-sm"
+                                    maxLength={CUSTOM_PACK_LIMITS.maxPlaceholderLength}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => removeSlot(index)}
+                                    disabled={slots.length <= CUSTOM_PACK_LIMITS.minSlots}
+                                    className="col-span-1 p-2 rounded-lg bg-red-500/10 border border-red-500/20 hover:bg-red-500/30 disabled:opacity-30 transition-all"
+                                    title="Remove question"
+                                >
+                                    <Trash2 className="w-4 h-4 text-red-400 mx-auto" />
+                                </button>
+                            </div>
+                        ))}
+
+                        {slots.length < CUSTOM_PACK_LIMITS.maxSlots && (
+                            <button
+                                type="button"
+                                onClick={addSlot}
+                                className="btn-secondary w-full py-2 flex items-center justify-center gap-2 text-sm"
+                            >
+                                <Plus className="w-4 h-4" />
+                                Add Question
+                            </button>
+                        )}
+
+                        <div>
+                            <label className="block text-sm font-semibold mb-2 text-gray-300">Story Sentence</label>
+                            <textarea
+                                value={template}
+                                onChange={(e) => setTemplate(e.target.value)}
+                                className="input-field resize-none h-24 text-sm font-mono"
+                                maxLength={CUSTOM_PACK_LIMITS.maxTemplateLength}
+                                required
+                            />
+                            <p className="text-xs text-gray-500 mt-1">
+                                Use every placeholder: {slots.map(slot => `{${slot.id}}`).join(' ')}
+                            </p>
+                        </div>
+
+                        {error && (
+                            <p className="text-sm font-semibold text-red-400 text-center">{error}</p>
+                        )}
+
+                        <div className="flex gap-4 pt-2">
+                            <button type="button" onClick={onClose} className="btn-secondary flex-1 text-lg py-3">
+                                Cancel
+                            </button>
+                            <button type="submit" disabled={isSaving} className="btn-primary flex-1 text-lg py-3 font-bold">
+                                {isSaving ? 'Saving...' : 'Use These'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -3,44 +3,40 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Socket } from 'socket.io-client';
 import { useGameStore } from '@/lib/game-store';
-import type { ServerToClientEvents, ClientToServerEvents, QuestionType } from '@/types/game';
-import { Send, Loader2, Clock } from 'lucide-react';
-
-const DEFAULT_TIMER_SECONDS = 60; // Fallback if not set
+import type { ServerToClientEvents, ClientToServerEvents } from '@/types/game';
+import { getRoomPack, getStoryName } from '@/lib/question-packs';
+import { secondsUntil } from '@/lib/countdown';
+import { Send, Loader2, Clock, Dices } from 'lucide-react';
+import PresenceBadge from './PresenceBadge';
 
 interface GameBoardProps {
     socket: Socket<ServerToClientEvents, ClientToServerEvents>;
 }
 
-function getQuestionLabel(question: QuestionType): string {
-    const labels: Record<QuestionType, string> = {
-        who: 'Who?',
-        withWhom: 'With whom?',
-        where: 'Where?',
-        how: 'How?'
-    };
-    return labels[question];
-}
-
 export default function GameBoard({ socket }: GameBoardProps) {
-    const { room, getMyQuestion, hasAnswered } = useGameStore();
+    const { room, getMyQuestion, hasAnswered, previousAnswer, can } = useGameStore();
     const myQuestion = getMyQuestion();
-    const timerSeconds = room?.settings.timerSeconds || DEFAULT_TIMER_SECONDS;
+    const deadline = room?.gameState.deadline;
     const [answer, setAnswer] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [timeLeft, setTimeLeft] = useState(timerSeconds);
+    const [timeLeft, setTimeLeft] = useState(() => secondsUntil(deadline));
     const timerRef = useRef<NodeJS.Timeout | null>(null);
     const hasAutoSubmittedRef = useRef(false);
 
-    // Auto-submit function
+    // Chain mode: only the slot at currentTurnIndex is open
+    const isChain = !!room?.settings.chainMode;
+    const openSlot = room?.gameState.questionOrder[room.gameState.currentTurnIndex];
+    const isMyTurn = !isChain || (!!myQuestion && myQuestion === openSlot);
+
+    // Auto-submit whatever was typed; an empty slot is filled by the server
     const autoSubmit = useCallback(() => {
         if (hasAutoSubmittedRef.current || isSubmitting) return;
         hasAutoSubmittedRef.current = true;
 
+        if (!answer.trim()) return;
+
         setIsSubmitting(true);
-        // Submit "..." if no answer provided (skipped)
-        const submittedAnswer = answer.trim() || '...';
-        socket.emit('submit-answer', submittedAnswer);
+        socket.emit('submit-answer', answer.trim());
 
         setTimeout(() => {
             setAnswer('');
@@ -48,25 +44,19 @@ export default function GameBoard({ socket }: GameBoardProps) {
         }, 500);
     }, [answer, isSubmitting, socket]);
 
-    // Timer effect - only runs when player hasn't answered
+    // Timer effect - counts down to the server deadline, so a rejoin resumes where it left off
     useEffect(() => {
-        // Reset timer when question changes or component mounts
         if (!hasAnswered()) {
-            setTimeLeft(timerSeconds);
+            setTimeLeft(secondsUntil(deadline));
             hasAutoSubmittedRef.current = false;
 
             timerRef.current = setInterval(() => {
-                setTimeLeft((prev) => {
-                    if (prev <= 1) {
-                        // Time's up - auto submit
-                        if (timerRef.current) {
-                            clearInterval(timerRef.current);
-                        }
-                        return 0;
-                    }
-                    return prev - 1;
-                });
-            }, 1000);
+                const remaining = secondsUntil(deadline);
+                setTimeLeft(remaining);
+                if (remaining === 0 && timerRef.current) {
+                    clearInterval(timerRef.current);
+                }
+            }, 250);
         }
 
         return () => {
@@ -74,26 +64,61 @@ export default function GameBoard({ socket }: GameBoardProps) {
                 clearInterval(timerRef.current);
             }
         };
-    }, [myQuestion, hasAnswered, timerSeconds]);
+    }, [myQuestion, hasAnswered, deadline]);
 
     // Auto-submit when timer reaches 0
     useEffect(() => {
-        if (timeLeft === 0 && !hasAnswered() && !hasAutoSubmittedRef.current) {
+        if (timeLeft === 0 && isMyTurn && !hasAnswered() && !hasAutoSubmittedRef.current) {
             autoSubmit();
         }
-    }, [timeLeft, hasAnswered, autoSubmit]);
+    }, [timeLeft, isMyTurn, hasAnswered, autoSubmit]);
 
     if (!room) return null;
 
-    // Get players who are typing (have question assigned but haven't answered)
-    const playersTyping = room.players.filter(p => p.assignedQuestion && !p.hasAnswered);
-    const playersAnswered = room.players.filter(p => p.assignedQuestion && p.hasAnswered);
-    const playersWatching = room.players.filter(p => !p.assignedQuestion);
+    // Get players who are typing (have a slot this round but haven't answered).
+    // Other players' slots and answers are hidden from us, so go by the per-view flags.
+    const playersTyping = room.players.filter(p => p.isWriting && !p.hasAnswered);
+    const playersAnswered = room.players.filter(p => p.isWriting && p.hasAnswered);
+    const playersWatching = room.players.filter(p => !p.isWriting);
+    const answeredCount = playersAnswered.length;
+    const pack = getRoomPack(room);
+    // Every story group fills every slot
+    const groupCount = room.gameState.answers.length;
+    const totalQuestions = pack.slots.length * Math.max(1, groupCount);
+    const me = room.players.find(p => p.id === useGameStore.getState().playerId);
+    const myGroup = me?.groupIndex;
+
+    const waitingForTurn = isChain && !!myQuestion && !hasAnswered() && !isMyTurn;
+    const turnWriters = room.players.filter(p => p.isTurn);
+    const chainTurnBanner = isChain && openSlot && (
+        <div className="glass rounded-xl md:rounded-2xl px-4 py-3 mb-6 md:mb-8 text-center border border-white/10 animate-fadeIn">
+            <div className="text-xs md:text-sm text-gray-400 mb-1">
+                Turn {room.gameState.currentTurnIndex + 1} of {room.gameState.questionOrder.length} · {pack.slots.find(slot => slot.id === openSlot)?.label ?? openSlot}
+            </div>
+            <div className="text-sm md:text-base font-semibold text-yellow-200">
+                {turnWriters.length > 0 ? `${turnWriters.map(p => p.name).join(', ')} writing...` : 'Moving on...'}
+            </div>
+        </div>
+    );
+
+    // Slots whose writer left with nobody free to take over - the host may reveal without them
+    const orphanedCount = room.gameState.orphanedSlots?.length ?? 0;
+    const orphanBanner = can('force-reveal') && orphanedCount > 0 && (
+        <div className="glass rounded-xl md:rounded-2xl px-4 py-3 mb-6 md:mb-8 border border-red-500/30 bg-red-500/10 flex flex-col md:flex-row items-center justify-between gap-3 animate-fadeIn">
+            <p className="text-sm md:text-base text-red-200 font-medium text-center md:text-left">
+                {orphanedCount === 1 ? 'A question lost its writer' : `${orphanedCount} questions lost their writers`} and nobody is free to take over.
+            </p>
+            <button
+                onClick={() => socket.emit('force-reveal')}
+                className="btn-secondary px-4 py-2 text-sm font-bold shrink-0 hover:bg-red-500/20 hover:border-red-500/40"
+            >
+                Reveal Now
+            </button>
+        </div>
+    );
 
-    // Spectator view for players without assigned questions
-    if (!myQuestion) {
-        const answeredCount = Object.keys(room.gameState.answers).length;
-        const totalQuestions = 4;
+    // Spectator view for players without assigned questions (or, in chain mode, whose turn has not come yet)
+    if (!myQuestion || waitingForTurn) {
 
         return (
             <div className="min-h-0 md:min-h-screen flex items-start md:items-center justify-start md:justify-center p-1 md:p-4 pt-2 md:pt-4 relative overflow-hidden">
@@ -110,15 +135,24 @@ export default function GameBoard({ socket }: GameBoardProps) {
                             <span className="text-sm font-bold text-indigo-300">Round {room.gameState.currentRound}</span>
                         </div>
                         <h2 className="text-3xl sm:text-4xl md:text-5xl font-black gradient-text mb-4 md:mb-6 animate-title">
-                            👀 Watching This Round
+                            {waitingForTurn ? '⏳ Your Turn Is Coming' : me?.isPending ? '👋 Welcome In!' : '👀 Watching This Round'}
                         </h2>
                         <p className="text-base md:text-xl text-gray-300 font-medium px-4">
-                            Other players are crafting the story. You&apos;ll get to play next round!
+                            {waitingForTurn
+                                ? 'The story is being passed along. You will only see the answer right before yours.'
+                                : me?.isPending
+                                    ? 'You joined mid-round. Watch this one, and you\'ll be in the rotation from the next round!'
+                                    : groupCount > 1
+                                        ? `Other players are crafting ${groupCount} stories. You'll get to play next round!`
+                                        : <>Other players are crafting the story. You&apos;ll get to play next round!</>}
                         </p>
                     </div>
 
+                    {orphanBanner}
+                    {chainTurnBanner}
+
                     {/* Progress Indicators */}
-                    <div className="flex justify-center gap-2 md:gap-3 mb-6 md:mb-10">
+                    <div className="flex flex-wrap justify-center gap-2 md:gap-3 mb-6 md:mb-10">
                         {Array.from({ length: totalQuestions }).map((_, i) => (
                             <div
                                 key={i}
@@ -154,8 +188,9 @@ export default function GameBoard({ socket }: GameBoardProps) {
                                                 key={player.id}
                                                 className="flex items-center gap-3 px-4 py-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20"
                                             >
-                                                <div className="flex-1 font-semibold text-yellow-200">
+                                                <div className="flex-1 flex items-center gap-2 font-semibold text-yellow-200">
                                                     {player.name}
+                                                    <PresenceBadge presence={player.presence} />
                                                 </div>
                                                 {/* Typing indicator animation */}
                                                 <div className="flex gap-1">
@@ -184,9 +219,10 @@ export default function GameBoard({ socket }: GameBoardProps) {
                                         {playersAnswered.map((player) => (
                                             <div
                                                 key={player.id}
-                                                className="px-3 py-1.5 md:px-4 md:py-2 rounded-lg md:rounded-xl text-xs md:text-sm font-semibold bg-green-500/20 text-green-300 border border-green-500/30"
+                                                className="flex items-center gap-2 px-3 py-1.5 md:px-4 md:py-2 rounded-lg md:rounded-xl text-xs md:text-sm font-semibold bg-green-500/20 text-green-300 border border-green-500/30"
                                             >
                                                 {player.name} ✓
+                                                <PresenceBadge presence={player.presence} />
                                             </div>
                                         ))}
                                     </div>
@@ -255,9 +291,24 @@ export default function GameBoard({ socket }: GameBoardProps) {
         }, 500);
     };
 
-    const questionLabel = getQuestionLabel(myQuestion);
-    const answeredCount = Object.keys(room.gameState.answers).length;
-    const totalQuestions = 4;
+    const handleSkip = () => {
+        if (isSubmitting) return;
+
+        if (timerRef.current) {
+            clearInterval(timerRef.current);
+        }
+
+        setIsSubmitting(true);
+        socket.emit('skip-answer');
+
+        setTimeout(() => {
+            setAnswer('');
+            setIsSubmitting(false);
+        }, 500);
+    };
+
+    const mySlot = pack.slots.find(slot => slot.id === myQuestion);
+    const questionLabel = mySlot?.label ?? myQuestion;
 
     // Timer colors based on time remaining
     const getTimerColor = () => {
@@ -284,7 +335,10 @@ export default function GameBoard({ socket }: GameBoardProps) {
                 {/* Round Info */}
                 <div className="text-center mb-6 md:mb-10 animate-fadeIn">
                     <div className="inline-block px-4 py-2 rounded-full bg-gradient-to-r from-indigo-500/20 to-purple-500/20 border border-indigo-500/30 mb-4">
-                        <span className="text-sm font-bold text-indigo-300">Round {room.gameState.currentRound}</span>
+                        <span className="text-sm font-bold text-indigo-300">
+                            Round {room.gameState.currentRound}
+                            {groupCount > 1 && myGroup !== undefined && ` · Story ${getStoryName(myGroup)}`}
+                        </span>
                     </div>
                     <h2 className="text-4xl sm:text-5xl md:text-6xl font-black gradient-text mb-4 md:mb-6 animate-title">
                         {hasAnswered() ? '✓ Answer Submitted!' : questionLabel}
@@ -312,8 +366,19 @@ export default function GameBoard({ socket }: GameBoardProps) {
                     </div>
                 )}
 
+                {orphanBanner}
+                {hasAnswered() && chainTurnBanner}
+
+                {/* The only part of the story a chain writer gets to see */}
+                {!hasAnswered() && isChain && previousAnswer && (
+                    <div className="glass rounded-xl md:rounded-2xl px-4 py-3 md:px-6 md:py-4 mb-6 md:mb-8 border border-white/10 animate-fadeIn">
+                        <div className="text-xs md:text-sm text-gray-400 mb-1">The previous answer was</div>
+                        <div className="text-lg md:text-xl font-bold text-white">&ldquo;{previousAnswer}&rdquo;</div>
+                    </div>
+                )}
+
                 {/* Progress Indicators (without revealing which questions) */}
-                <div className="flex justify-center gap-2 md:gap-3 mb-6 md:mb-10">
+                <div className="flex flex-wrap justify-center gap-2 md:gap-3 mb-6 md:mb-10">
                     {Array.from({ length: totalQuestions }).map((_, i) => (
                         <div
                             key={i}
@@ -342,7 +407,7 @@ export default function GameBoard({ socket }: GameBoardProps) {
                                     <textarea
                                         value={answer}
                                         onChange={(e) => setAnswer(e.target.value)}
-                                        placeholder="Type your answer here..."
+                                        placeholder={mySlot?.placeholder || 'Type your answer here...'}
                                         className="input-field resize-none h-32 md:h-40 text-lg md:text-xl font-medium"
                                         maxLength={100}
                                         autoFocus
@@ -381,6 +446,17 @@ export default function GameBoard({ socket }: GameBoardProps) {
                                     )}
                                 </div>
                             </button>
+
+                            {/* Out of ideas: let the word bank write this one */}
+                            <button
+                                type="button"
+                                onClick={handleSkip}
+                                disabled={isSubmitting}
+                                className="mt-3 w-full py-2 md:py-3 rounded-xl text-sm md:text-base font-semibold text-gray-400 hover:text-white hover:bg-white/5 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                <Dices className="w-4 h-4 md:w-5 md:h-5" />
+                                Skip - surprise me
+                            </button>
                         </form>
                     </div>
                 ) : (
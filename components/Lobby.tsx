@@ -2,11 +2,34 @@
 
 import { Socket } from 'socket.io-client';
 import { useGameStore } from '@/lib/game-store';
-import type { ServerToClientEvents, ClientToServerEvents } from '@/types/game';
-import { Users, Crown, Copy, Check, UserMinus, LogOut } from 'lucide-react';
-import { useState } from 'react';
+import type { ServerToClientEvents, ClientToServerEvents, VoteTieBreak, HostSuccession, RoomVisibility } from '@/types/game';
+import { QUESTION_PACKS, CUSTOM_PACK_ID, getRoomPack } from '@/lib/question-packs';
+import { outranks } from '@/lib/permissions';
+import { Users, Crown, Copy, Check, UserMinus, LogOut, BookOpen, Pencil, Vote, Trophy, Layers, Link2, Timer, CircleCheck, UserCog, ShieldCheck, Eye, Ban, Globe, Lock } from 'lucide-react';
+import { useState, useEffect } from 'react';
 import AdBanner from './AdBanner';
 import Modal, { ModalType } from './Modal';
+import CustomPackEditor from './CustomPackEditor';
+import StoryHistory from './StoryHistory';
+import Scoreboard from './Scoreboard';
+import PresenceBadge from './PresenceBadge';
+
+const TIE_BREAK_OPTIONS: { value: VoteTieBreak; label: string }[] = [
+    { value: 'share', label: 'Share' },
+    { value: 'earliest', label: 'Fastest' },
+    { value: 'none', label: 'No bonus' },
+];
+
+const SUCCESSION_OPTIONS: { value: HostSuccession; label: string }[] = [
+    { value: 'longest-present', label: 'First in' },
+    { value: 'most-active', label: 'Most active' },
+    { value: 'random', label: 'Random' },
+];
+
+const VISIBILITY_OPTIONS: { value: RoomVisibility; label: string }[] = [
+    { value: 'private', label: 'Private' },
+    { value: 'public', label: 'Public' },
+];
 
 interface LobbyProps {
     socket: Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -14,8 +37,10 @@ interface LobbyProps {
 }
 
 export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
-    const { room, isHost } = useGameStore();
+    const { room, playerId, can } = useGameStore();
     const [copied, setCopied] = useState(false);
+    const [showPackEditor, setShowPackEditor] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
     const [modalState, setModalState] = useState<{
         isOpen: boolean;
         type: ModalType;
@@ -24,15 +49,35 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
         onConfirm?: () => void;
     }>({ isOpen: false, type: 'alert', message: '' });
 
+    // Tick while the ready-check countdown runs
+    const autoStartAt = room?.gameState.autoStartAt;
+    const [now, setNow] = useState(Date.now());
+    useEffect(() => {
+        if (!autoStartAt) return;
+        setNow(Date.now());
+        const interval = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(interval);
+    }, [autoStartAt]);
+
     if (!room) return null;
 
+    const me = room.players.find(p => p.id === playerId);
+    const readyCount = room.players.filter(p => p.isReady).length;
+    const autoStartIn = autoStartAt ? Math.max(0, Math.ceil((autoStartAt - now) / 1000)) : null;
+
+    // One writer per question, so the pack decides the minimum (spectators don't write)
+    const pack = getRoomPack(room);
+    const minPlayers = pack.slots.length;
+    const writerCount = room.players.filter(p => p.role !== 'spectator').length;
+    const canChangeSettings = can('change-settings');
+
     const handleStartGame = () => {
-        if (room.players.length < 4) {
+        if (writerCount < minPlayers) {
             setModalState({
                 isOpen: true,
                 type: 'alert',
                 title: 'Not Enough Players',
-                message: 'Need at least 4 players to start the game!'
+                message: `Need at least ${minPlayers} players to start the game!`
             });
             return;
         }
@@ -49,6 +94,41 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
         });
     };
 
+    const handleBanPlayer = (player: { id: string; name: string }) => {
+        setModalState({
+            isOpen: true,
+            type: 'confirm',
+            title: 'Ban Player',
+            message: `Kick ${player.name} and keep them out of this room, even under another name?`,
+            onConfirm: () => socket.emit('kick-player', player.id, true)
+        });
+    };
+
+    const handleTransferHost = (player: { id: string; name: string }) => {
+        setModalState({
+            isOpen: true,
+            type: 'confirm',
+            title: 'Make Host',
+            message: `Hand the room over to ${player.name}? You won't be host anymore.`,
+            onConfirm: () => socket.emit('transfer-host', player.id)
+        });
+    };
+
+    const handleSetPassphrase = (value: string | null) => {
+        socket.emit('set-passphrase', value, (success, error) => {
+            if (success) {
+                setPassphrase('');
+            } else {
+                setModalState({
+                    isOpen: true,
+                    type: 'error',
+                    title: 'Passphrase Not Saved',
+                    message: error || 'Failed to update the passphrase'
+                });
+            }
+        });
+    };
+
     const copyRoomCode = () => {
         navigator.clipboard.writeText(room.code);
         setCopied(true);
@@ -135,14 +215,14 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
                                         Players
                                     </h3>
                                     <p className="text-gray-400 text-xs md:text-sm">
-                                        {room.players.length} of {room.settings.maxPlayers} joined
+                                        {room.players.length} of {room.settings.maxPlayers} joined · {readyCount} ready
                                     </p>
                                 </div>
                             </div>
-                            {room.players.length < 4 && (
+                            {writerCount < minPlayers && (
                                 <div className="px-2 py-1 md:px-4 md:py-2 bg-yellow-500/20 border border-yellow-500/30 rounded-lg md:rounded-xl shrink-0">
                                     <span className="text-xs md:text-sm font-semibold text-yellow-300">
-                                        Need {4 - room.players.length} more
+                                        Need {minPlayers - writerCount} more
                                     </span>
                                 </div>
                             )}
@@ -173,18 +253,85 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
                                                             <span className="text-[10px] md:text-xs font-semibold text-yellow-300">Host</span>
                                                         </div>
                                                     )}
+                                                    {player.role === 'co-host' && (
+                                                        <div className="flex items-center gap-1 px-1.5 py-0.5 md:px-2 bg-indigo-500/20 rounded-full">
+                                                            <ShieldCheck className="w-3 h-3 md:w-3.5 md:h-3.5 text-indigo-300" />
+                                                            <span className="text-[10px] md:text-xs font-semibold text-indigo-200">Co-host</span>
+                                                        </div>
+                                                    )}
+                                                    {player.role === 'spectator' && (
+                                                        <div className="flex items-center gap-1 px-1.5 py-0.5 md:px-2 bg-white/10 rounded-full">
+                                                            <Eye className="w-3 h-3 md:w-3.5 md:h-3.5 text-gray-300" />
+                                                            <span className="text-[10px] md:text-xs font-semibold text-gray-300">Spectator</span>
+                                                        </div>
+                                                    )}
+                                                    <PresenceBadge presence={player.presence} />
                                                 </div>
+                                                {player.isReady ? (
+                                                    <div className="flex items-center gap-1 text-xs md:text-sm font-semibold text-green-400">
+                                                        <CircleCheck className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                                                        Ready
+                                                    </div>
+                                                ) : (
+                                                    <div className="text-xs md:text-sm text-gray-500">Not ready</div>
+                                                )}
                                             </div>
                                         </div>
 
-                                        {isHost() && !player.isHost && (
-                                            <button
-                                                onClick={() => handleKickPlayer(player.id)}
-                                                className="p-2 md:p-2.5 hover:bg-red-500/30 bg-red-500/10 rounded-lg md:rounded-xl transition-all border border-red-500/20 hover:border-red-500/40"
-                                                title="Kick player"
-                                            >
-                                                <UserMinus className="w-4 h-4 md:w-5 md:h-5 text-red-400" />
-                                            </button>
+                                        {outranks(room, playerId, player.id) && (
+                                            <div className="flex items-center gap-2">
+                                                {can('assign-roles') && (
+                                                    <>
+                                                        <button
+                                                            onClick={() => socket.emit('set-role', player.id, player.role === 'co-host' ? 'player' : 'co-host')}
+                                                            className={`p-2 md:p-2.5 rounded-lg md:rounded-xl transition-all border ${player.role === 'co-host'
+                                                                ? 'bg-indigo-500/40 border-indigo-500/60'
+                                                                : 'bg-indigo-500/10 border-indigo-500/20 hover:bg-indigo-500/30 hover:border-indigo-500/40'
+                                                                }`}
+                                                            title={player.role === 'co-host' ? 'Remove co-host' : 'Make co-host'}
+                                                        >
+                                                            <ShieldCheck className="w-4 h-4 md:w-5 md:h-5 text-indigo-300" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => socket.emit('set-role', player.id, player.role === 'spectator' ? 'player' : 'spectator')}
+                                                            className={`p-2 md:p-2.5 rounded-lg md:rounded-xl transition-all border ${player.role === 'spectator'
+                                                                ? 'bg-white/30 border-white/40'
+                                                                : 'bg-white/5 border-white/10 hover:bg-white/15 hover:border-white/30'
+                                                                }`}
+                                                            title={player.role === 'spectator' ? 'Let them write' : 'Make spectator'}
+                                                        >
+                                                            <Eye className="w-4 h-4 md:w-5 md:h-5 text-gray-300" />
+                                                        </button>
+                                                    </>
+                                                )}
+                                                {can('transfer-host') && (
+                                                    <button
+                                                        onClick={() => handleTransferHost(player)}
+                                                        className="p-2 md:p-2.5 hover:bg-yellow-500/30 bg-yellow-500/10 rounded-lg md:rounded-xl transition-all border border-yellow-500/20 hover:border-yellow-500/40"
+                                                        title="Make host"
+                                                    >
+                                                        <Crown className="w-4 h-4 md:w-5 md:h-5 text-yellow-400" />
+                                                    </button>
+                                                )}
+                                                {can('kick-player') && (
+                                                    <button
+                                                        onClick={() => handleKickPlayer(player.id)}
+                                                        className="p-2 md:p-2.5 hover:bg-red-500/30 bg-red-500/10 rounded-lg md:rounded-xl transition-all border border-red-500/20 hover:border-red-500/40"
+                                                        title="Kick player"
+                                                    >
+                                                        <UserMinus className="w-4 h-4 md:w-5 md:h-5 text-red-400" />
+                                                    </button>
+                                                )}
+                                                {can('kick-player') && (
+                                                    <button
+                                                        onClick={() => handleBanPlayer(player)}
+                                                        className="p-2 md:p-2.5 hover:bg-red-500/30 bg-red-500/10 rounded-lg md:rounded-xl transition-all border border-red-500/20 hover:border-red-500/40"
+                                                        title="Ban player"
+                                                    >
+                                                        <Ban className="w-4 h-4 md:w-5 md:h-5 text-red-400" />
+                                                    </button>
+                                                )}
+                                            </div>
                                         )}
                                     </div>
                                 </div>
@@ -193,6 +340,35 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
                     </div>
                 </div>
 
+                {/* Ban List */}
+                {can('kick-player') && room.bans && room.bans.length > 0 && (
+                    <div className="relative rounded-xl md:rounded-2xl overflow-hidden mb-3 md:mb-8 animate-fadeIn">
+                        <div className="absolute inset-0 bg-gradient-to-br from-red-500/5 to-pink-500/5 backdrop-blur-xl border border-white/5"></div>
+                        <div className="relative p-3 md:p-6">
+                            <div className="flex items-center gap-3 mb-3 md:mb-4">
+                                <Ban className="w-5 h-5 text-red-400" />
+                                <h4 className="font-bold text-base md:text-lg text-gray-300">Banned ({room.bans.length})</h4>
+                            </div>
+                            <div className="space-y-1.5 md:space-y-2">
+                                {room.bans.map((ban) => (
+                                    <div
+                                        key={ban.id}
+                                        className="flex items-center justify-between rounded-lg px-3 py-2 border bg-white/5 border-white/10"
+                                    >
+                                        <span className="text-sm md:text-base font-semibold text-white truncate">{ban.playerName}</span>
+                                        <button
+                                            onClick={() => socket.emit('lift-ban', ban.id)}
+                                            className="btn-secondary px-3 py-1.5 text-xs md:text-sm font-semibold shrink-0"
+                                        >
+                                            Lift Ban
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {/* Game Info */}
                 <div className="relative rounded-xl md:rounded-2xl overflow-hidden mb-3 md:mb-8 animate-fadeIn" style={{ animationDelay: '0.4s' }}>
                     <div className="absolute inset-0 bg-gradient-to-br from-purple-500/5 to-pink-500/5 backdrop-blur-xl border border-white/5"></div>
@@ -207,7 +383,7 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
                                     <span className="text-sm md:text-base font-bold text-gray-300">Max Players</span>
                                 </div>
                                 <div className="flex items-center justify-between bg-black/20 rounded-lg p-2">
-                                    {isHost() ? (
+                                    {canChangeSettings ? (
                                         <>
                                             <button
                                                 onClick={() => {
@@ -251,11 +427,11 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
                                     <span className="text-sm md:text-base font-bold text-gray-300">Time per Answer</span>
                                 </div>
                                 <div className="flex items-center justify-between bg-black/20 rounded-lg p-2">
-                                    {isHost() ? (
+                                    {canChangeSettings ? (
                                         <>
                                             <button
                                                 onClick={() => {
-                                                    const newTime = Math.max(30, (room.settings.timerSeconds || 60) - 15);
+                                                    const newTime = Math.max(30, (room.settings.timerSeconds || 60) - 30);
                                                     if (newTime !== room.settings.timerSeconds) {
                                                         socket.emit('reset-to-lobby', { timerSeconds: newTime });
                                                     }
@@ -268,7 +444,7 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
                                             <span className="font-black text-lg md:text-xl text-white">{room.settings.timerSeconds || 60}s</span>
                                             <button
                                                 onClick={() => {
-                                                    const newTime = Math.min(120, (room.settings.timerSeconds || 60) + 15);
+                                                    const newTime = Math.min(120, (room.settings.timerSeconds || 60) + 30);
                                                     if (newTime !== room.settings.timerSeconds) {
                                                         socket.emit('reset-to-lobby', { timerSeconds: newTime });
                                                     }
@@ -286,10 +462,363 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
                                     )}
                                 </div>
                             </div>
+
+                            <div className="glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="flex items-center gap-3 mb-2">
+                                    <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg md:rounded-xl bg-amber-500/20 flex items-center justify-center shrink-0">
+                                        <Vote className="w-4 h-4 md:w-5 md:h-5 text-amber-400" />
+                                    </div>
+                                    <span className="text-sm md:text-base font-bold text-gray-300">Voting Time</span>
+                                </div>
+                                <div className="flex items-center justify-between bg-black/20 rounded-lg p-2">
+                                    {canChangeSettings ? (
+                                        <>
+                                            <button
+                                                onClick={() => {
+                                                    const newTime = Math.max(0, room.settings.voteSeconds - 15);
+                                                    if (newTime !== room.settings.voteSeconds) {
+                                                        socket.emit('reset-to-lobby', { voteSeconds: newTime });
+                                                    }
+                                                }}
+                                                className="w-8 h-8 flex items-center justify-center rounded-lg bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 transition-colors disabled:opacity-50"
+                                                disabled={room.settings.voteSeconds <= 0}
+                                            >
+                                                -
+                                            </button>
+                                            <span className="font-black text-lg md:text-xl text-white">
+                                                {room.settings.voteSeconds > 0 ? `${room.settings.voteSeconds}s` : 'Off'}
+                                            </span>
+                                            <button
+                                                onClick={() => {
+                                                    const newTime = Math.min(120, room.settings.voteSeconds + 15);
+                                                    if (newTime !== room.settings.voteSeconds) {
+                                                        socket.emit('reset-to-lobby', { voteSeconds: newTime });
+                                                    }
+                                                }}
+                                                className="w-8 h-8 flex items-center justify-center rounded-lg bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 transition-colors disabled:opacity-50"
+                                                disabled={room.settings.voteSeconds >= 120}
+                                            >
+                                                +
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <div className="w-full text-center font-black text-lg md:text-xl text-white">
+                                            {room.settings.voteSeconds > 0 ? `${room.settings.voteSeconds}s` : 'Off'}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="flex items-center gap-3 mb-2">
+                                    <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg md:rounded-xl bg-green-500/20 flex items-center justify-center shrink-0">
+                                        <Trophy className="w-4 h-4 md:w-5 md:h-5 text-green-400" />
+                                    </div>
+                                    <span className="text-sm md:text-base font-bold text-gray-300">On a Tie</span>
+                                </div>
+                                {canChangeSettings ? (
+                                    <div className="grid grid-cols-3 gap-1 bg-black/20 rounded-lg p-1">
+                                        {TIE_BREAK_OPTIONS.map((option) => (
+                                            <button
+                                                key={option.value}
+                                                onClick={() => {
+                                                    if (option.value !== room.settings.voteTieBreak) {
+                                                        socket.emit('reset-to-lobby', { voteTieBreak: option.value });
+                                                    }
+                                                }}
+                                                className={`py-2 px-1 rounded-md text-[10px] md:text-xs font-semibold transition-colors ${option.value === room.settings.voteTieBreak
+                                                    ? 'bg-green-500 text-white'
+                                                    : 'text-gray-300 hover:bg-green-500/20'
+                                                    }`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <div className="bg-black/20 rounded-lg p-2 text-center font-black text-lg md:text-xl text-white">
+                                        {TIE_BREAK_OPTIONS.find(option => option.value === room.settings.voteTieBreak)?.label}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="col-span-2 glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="flex items-center gap-3">
+                                        <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg md:rounded-xl bg-cyan-500/20 flex items-center justify-center shrink-0">
+                                            <Layers className="w-4 h-4 md:w-5 md:h-5 text-cyan-400" />
+                                        </div>
+                                        <div>
+                                            <span className="text-sm md:text-base font-bold text-gray-300">Parallel Stories</span>
+                                            <p className="text-xs text-gray-500">
+                                                With {minPlayers * 2}+ players, groups of {minPlayers} each write their own story
+                                            </p>
+                                        </div>
+                                    </div>
+                                    {canChangeSettings ? (
+                                        <button
+                                            onClick={() => socket.emit('reset-to-lobby', { parallelGroups: !room.settings.parallelGroups })}
+                                            className={`px-4 py-2 rounded-lg text-xs md:text-sm font-semibold transition-colors shrink-0 ${room.settings.parallelGroups
+                                                ? 'bg-cyan-500 text-white'
+                                                : 'bg-black/20 text-gray-300 hover:bg-cyan-500/20'
+                                                }`}
+                                        >
+                                            {room.settings.parallelGroups ? 'On' : 'Off'}
+                                        </button>
+                                    ) : (
+                                        <span className="font-black text-base md:text-lg text-white shrink-0">
+                                            {room.settings.parallelGroups ? 'On' : 'Off'}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="col-span-2 glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="flex items-center gap-3">
+                                        <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg md:rounded-xl bg-orange-500/20 flex items-center justify-center shrink-0">
+                                            <Link2 className="w-4 h-4 md:w-5 md:h-5 text-orange-400" />
+                                        </div>
+                                        <div>
+                                            <span className="text-sm md:text-base font-bold text-gray-300">Chain Mode</span>
+                                            <p className="text-xs text-gray-500">
+                                                Questions are answered one at a time, each writer seeing only the answer before theirs
+                                            </p>
+                                        </div>
+                                    </div>
+                                    {canChangeSettings ? (
+                                        <button
+                                            onClick={() => socket.emit('reset-to-lobby', { chainMode: !room.settings.chainMode })}
+                                            className={`px-4 py-2 rounded-lg text-xs md:text-sm font-semibold transition-colors shrink-0 ${room.settings.chainMode
+                                                ? 'bg-orange-500 text-white'
+                                                : 'bg-black/20 text-gray-300 hover:bg-orange-500/20'
+                                                }`}
+                                        >
+                                            {room.settings.chainMode ? 'On' : 'Off'}
+                                        </button>
+                                    ) : (
+                                        <span className="font-black text-base md:text-lg text-white shrink-0">
+                                            {room.settings.chainMode ? 'On' : 'Off'}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="col-span-2 glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="flex items-center gap-3">
+                                        <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg md:rounded-xl bg-green-500/20 flex items-center justify-center shrink-0">
+                                            <Timer className="w-4 h-4 md:w-5 md:h-5 text-green-400" />
+                                        </div>
+                                        <div>
+                                            <span className="text-sm md:text-base font-bold text-gray-300">Auto-Start</span>
+                                            <p className="text-xs text-gray-500">
+                                                The game starts by itself once everyone is ready
+                                            </p>
+                                        </div>
+                                    </div>
+                                    {canChangeSettings ? (
+                                        <button
+                                            onClick={() => socket.emit('reset-to-lobby', { autoStart: !room.settings.autoStart })}
+                                            className={`px-4 py-2 rounded-lg text-xs md:text-sm font-semibold transition-colors shrink-0 ${room.settings.autoStart
+                                                ? 'bg-green-500 text-white'
+                                                : 'bg-black/20 text-gray-300 hover:bg-green-500/20'
+                                                }`}
+                                        >
+                                            {room.settings.autoStart ? 'On' : 'Off'}
+                                        </button>
+                                    ) : (
+                                        <span className="font-black text-base md:text-lg text-white shrink-0">
+                                            {room.settings.autoStart ? 'On' : 'Off'}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="col-span-2 glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="flex items-center gap-3 mb-2">
+                                    <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg md:rounded-xl bg-yellow-500/20 flex items-center justify-center shrink-0">
+                                        <UserCog className="w-4 h-4 md:w-5 md:h-5 text-yellow-400" />
+                                    </div>
+                                    <div>
+                                        <span className="text-sm md:text-base font-bold text-gray-300">Next Host</span>
+                                        <p className="text-xs text-gray-500">
+                                            Who takes over if the host leaves or loses connection
+                                        </p>
+                                    </div>
+                                </div>
+                                {canChangeSettings ? (
+                                    <div className="grid grid-cols-3 gap-1 bg-black/20 rounded-lg p-1">
+                                        {SUCCESSION_OPTIONS.map((option) => (
+                                            <button
+                                                key={option.value}
+                                                onClick={() => {
+                                                    if (option.value !== room.settings.hostSuccession) {
+                                                        socket.emit('reset-to-lobby', { hostSuccession: option.value });
+                                                    }
+                                                }}
+                                                className={`py-2 px-1 rounded-md text-[10px] md:text-xs font-semibold transition-colors ${option.value === room.settings.hostSuccession
+                                                    ? 'bg-yellow-500 text-white'
+                                                    : 'text-gray-300 hover:bg-yellow-500/20'
+                                                    }`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <div className="bg-black/20 rounded-lg p-2 text-center font-black text-lg md:text-xl text-white">
+                                        {SUCCESSION_OPTIONS.find(option => option.value === room.settings.hostSuccession)?.label}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="col-span-2 glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="flex items-center gap-3 mb-2">
+                                    <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg md:rounded-xl bg-sky-500/20 flex items-center justify-center shrink-0">
+                                        <Globe className="w-4 h-4 md:w-5 md:h-5 text-sky-400" />
+                                    </div>
+                                    <div>
+                                        <span className="text-sm md:text-base font-bold text-gray-300">Visibility</span>
+                                        <p className="text-xs text-gray-500">
+                                            {room.settings.visibility === 'public'
+                                                ? 'Listed in the public room browser while in the lobby'
+                                                : 'Only people with the room code can join'}
+                                        </p>
+                                    </div>
+                                </div>
+                                {canChangeSettings ? (
+                                    <div className="grid grid-cols-2 gap-1 bg-black/20 rounded-lg p-1">
+                                        {VISIBILITY_OPTIONS.map((option) => (
+                                            <button
+                                                key={option.value}
+                                                onClick={() => {
+                                                    if (option.value !== room.settings.visibility) {
+                                                        socket.emit('reset-to-lobby', { visibility: option.value });
+                                                    }
+                                                }}
+                                                className={`py-2 px-1 rounded-md text-[10px] md:text-xs font-semibold transition-colors ${option.value === room.settings.visibility
+                                                    ? 'bg-sky-500 text-white'
+                                                    : 'text-gray-300 hover:bg-sky-500/20'
+                                                    }`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <div className="bg-black/20 rounded-lg p-2 text-center font-black text-lg md:text-xl text-white">
+                                        {VISIBILITY_OPTIONS.find(option => option.value === room.settings.visibility)?.label}
+                                        {room.hasPassphrase && ' 🔒'}
+                                    </div>
+                                )}
+                                {canChangeSettings && room.settings.visibility === 'private' && (
+                                    <div className="mt-2">
+                                        {room.hasPassphrase ? (
+                                            <div className="flex items-center justify-between gap-2 bg-black/20 rounded-lg p-2">
+                                                <span className="flex items-center gap-1.5 text-xs md:text-sm text-gray-300">
+                                                    <Lock className="w-3 h-3 md:w-4 md:h-4 text-sky-400" />
+                                                    Passphrase set
+                                                </span>
+                                                <button
+                                                    onClick={() => handleSetPassphrase(null)}
+                                                    className="text-xs font-semibold text-red-300 hover:text-red-200"
+                                                >
+                                                    Remove
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <form
+                                                onSubmit={(e) => {
+                                                    e.preventDefault();
+                                                    if (passphrase.trim()) handleSetPassphrase(passphrase);
+                                                }}
+                                                className="flex gap-2"
+                                            >
+                                                <input
+                                                    type="password"
+                                                    value={passphrase}
+                                                    onChange={(e) => setPassphrase(e.target.value)}
+                                                    placeholder="Add a passphrase"
+                                                    className="input-field flex-1 text-sm py-2"
+                                                    maxLength={64}
+                                                    autoComplete="off"
+                                                />
+                                                <button
+                                                    type="submit"
+                                                    disabled={!passphrase.trim()}
+                                                    className="px-3 rounded-lg bg-sky-500 text-white text-xs md:text-sm font-semibold disabled:opacity-50"
+                                                >
+                                                    Set
+                                                </button>
+                                            </form>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="col-span-2 glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="flex items-center gap-3 mb-2">
+                                    <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg md:rounded-xl bg-pink-500/20 flex items-center justify-center shrink-0">
+                                        <BookOpen className="w-4 h-4 md:w-5 md:h-5 text-pink-400" />
+                                    </div>
+                                    <span className="text-sm md:text-base font-bold text-gray-300">Question Pack</span>
+                                </div>
+                                {canChangeSettings ? (
+                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                                        {QUESTION_PACKS.map((option) => (
+                                            <button
+                                                key={option.id}
+                                                onClick={() => {
+                                                    if (option.id !== pack.id) {
+                                                        socket.emit('reset-to-lobby', { packId: option.id });
+                                                    }
+                                                }}
+                                                className={`py-2 px-2 rounded-lg text-xs md:text-sm font-semibold transition-colors ${option.id === pack.id
+                                                    ? 'bg-pink-500 text-white'
+                                                    : 'bg-black/20 text-gray-300 hover:bg-pink-500/20'
+                                                    }`}
+                                            >
+                                                {option.name}
+                                            </button>
+                                        ))}
+                                        <button
+                                            onClick={() => setShowPackEditor(true)}
+                                            className={`py-2 px-2 rounded-lg text-xs md:text-sm font-semibold transition-colors flex items-center justify-center gap-1 ${pack.id === CUSTOM_PACK_ID
+                                                ? 'bg-pink-500 text-white'
+                                                : 'bg-black/20 text-gray-300 hover:bg-pink-500/20'
+                                                }`}
+                                        >
+                                            <Pencil className="w-3 h-3 md:w-4 md:h-4" />
+                                            Custom
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="bg-black/20 rounded-lg p-2 text-center font-black text-lg md:text-xl text-white">
+                                        {pack.name}
+                                    </div>
+                                )}
+                                <p className="text-xs md:text-sm text-gray-400 mt-2">
+                                    {pack.slots.map(slot => slot.label).join(' · ')}
+                                </p>
+                            </div>
                         </div>
                     </div>
                 </div>
 
+                {/* Last Game's Scores */}
+                {room.lastScores && (
+                    <Scoreboard
+                        players={room.players}
+                        scores={room.lastScores}
+                        title="Last Game"
+                        myId={playerId}
+                    />
+                )}
+
+                {/* Previous Stories */}
+                <StoryHistory socket={socket} />
+
                 {/* Ad Banner - Hidden on mobile */}
                 <div className="hidden md:block mb-8 animate-fadeIn" style={{ animationDelay: '0.6s' }}>
                     <AdBanner
@@ -298,38 +827,70 @@ export default function Lobby({ socket, onLeaveRoom }: LobbyProps) {
                     />
                 </div>
 
+                {/* Ready-check countdown */}
+                {autoStartIn !== null && (
+                    <div className="mb-3 md:mb-4 rounded-xl md:rounded-2xl bg-green-500/15 border border-green-500/30 px-4 py-3 text-center animate-fadeIn">
+                        <p className="text-base md:text-xl font-black text-green-300">
+                            Everyone's ready! Starting in {autoStartIn}...
+                        </p>
+                    </div>
+                )}
+
+                {/* Ready Toggle */}
+                {me && (
+                    <button
+                        onClick={() => socket.emit('toggle-ready')}
+                        className={`w-full mb-3 md:mb-4 rounded-xl md:rounded-2xl px-4 py-3 md:py-4 font-bold text-base md:text-xl flex items-center justify-center gap-2 transition-all border ${me.isReady
+                            ? 'bg-green-500/20 border-green-500/40 text-green-300 hover:bg-green-500/10'
+                            : 'bg-white/5 border-white/10 text-gray-200 hover:bg-white/10'
+                            }`}
+                    >
+                        <CircleCheck className="w-5 h-5 md:w-6 md:h-6" />
+                        {me.isReady ? "I'm Ready! (tap to undo)" : "I'm Ready"}
+                    </button>
+                )}
+
                 {/* Start Button */}
-                {isHost() && (
+                {can('start-game') && (
                     <button
                         onClick={handleStartGame}
-                        disabled={room.players.length < 4}
-                        className={`relative w-full overflow-hidden rounded-xl md:rounded-2xl transition-all duration-300 group ${room.players.length < 4
+                        disabled={writerCount < minPlayers}
+                        className={`relative w-full overflow-hidden rounded-xl md:rounded-2xl transition-all duration-300 group ${writerCount < minPlayers
                             ? 'opacity-50 cursor-not-allowed'
                             : 'hover:scale-[1.02] hover:shadow-2xl hover:shadow-indigo-500/30'
                             }`}
                     >
                         <div className="absolute inset-0 bg-gradient-to-r from-indigo-500 to-purple-500"></div>
-                        {room.players.length >= 4 && (
+                        {writerCount >= minPlayers && (
                             <div className="absolute inset-0 bg-gradient-to-r from-purple-500 to-pink-500 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
                         )}
                         <div className="relative px-4 py-3 md:px-8 md:py-5 font-black text-base md:text-2xl text-white">
-                            {room.players.length < 4 ? 'Waiting for Players...' : 'Start Game 🚀'}
+                            {writerCount < minPlayers ? 'Waiting for Players...' : 'Start Game 🚀'}
                         </div>
                     </button>
                 )}
 
-                {!isHost() && (
+                {!can('start-game') && (
                     <div className="relative rounded-xl md:rounded-2xl overflow-hidden">
                         <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/10 to-purple-500/10 backdrop-blur-xl border border-white/10 animate-pulse"></div>
                         <div className="relative text-center py-3 md:py-6 px-4">
                             <p className="text-sm md:text-xl font-semibold text-gray-300">
-                                Waiting for host to start the game...
+                                {room.settings.autoStart ? 'Waiting for everyone to get ready...' : 'Waiting for host to start the game...'}
                             </p>
                         </div>
                     </div>
                 )}
             </div>
 
+            {/* Custom Questions Editor */}
+            {showPackEditor && (
+                <CustomPackEditor
+                    socket={socket}
+                    initialPack={room.customPack ?? pack}
+                    onClose={() => setShowPackEditor(false)}
+                />
+            )}
+
             {/* Modal */}
             <Modal
                 isOpen={modalState.isOpen}
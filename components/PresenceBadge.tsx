@@ -0,0 +1,31 @@
+'use client';
+
+import type { PlayerPresence } from '@/types/game';
+import { WifiOff, Moon } from 'lucide-react';
+
+interface PresenceBadgeProps {
+    presence?: PlayerPresence;
+}
+
+// Connected players get no badge, so only the ones who aren't there stand out
+export default function PresenceBadge({ presence }: PresenceBadgeProps) {
+    if (presence === 'reconnecting') {
+        return (
+            <span className="inline-flex items-center gap-1 px-1.5 py-0.5 md:px-2 bg-red-500/20 rounded-full" title="Lost connection, may be back soon">
+                <WifiOff className="w-3 h-3 md:w-3.5 md:h-3.5 text-red-300" />
+                <span className="text-[10px] md:text-xs font-semibold text-red-200">Reconnecting</span>
+            </span>
+        );
+    }
+
+    if (presence === 'away') {
+        return (
+            <span className="inline-flex items-center gap-1 px-1.5 py-0.5 md:px-2 bg-gray-500/20 rounded-full" title="Switched tabs or idle">
+                <Moon className="w-3 h-3 md:w-3.5 md:h-3.5 text-gray-300" />
+                <span className="text-[10px] md:text-xs font-semibold text-gray-300">Away</span>
+            </span>
+        );
+    }
+
+    return null;
+}
@@ -3,10 +3,26 @@
 import { useState, useEffect } from 'react';
 import { Socket } from 'socket.io-client';
 import { useGameStore } from '@/lib/game-store';
-import type { ServerToClientEvents, ClientToServerEvents, RevealData, QuestionType } from '@/types/game';
+import type { ServerToClientEvents, ClientToServerEvents } from '@/types/game';
 import { motion } from 'framer-motion';
-import { Sparkles, RotateCcw, Users } from 'lucide-react';
+import { Sparkles, RotateCcw, Users, Vote, Trophy } from 'lucide-react';
 import AdBanner from './AdBanner';
+import StoryHistory from './StoryHistory';
+import { getStoryName } from '@/lib/question-packs';
+import { secondsUntil } from '@/lib/countdown';
+import Scoreboard from './Scoreboard';
+
+// Card colours, cycled for packs with more slots than colours
+const SLOT_COLORS = [
+    'from-indigo-500 to-purple-500',
+    'from-purple-500 to-pink-500',
+    'from-pink-500 to-rose-500',
+    'from-rose-500 to-orange-500',
+    'from-orange-500 to-amber-500'
+];
+
+// Delay between consecutive stories when several groups wrote at once
+const STORY_STAGGER_SECONDS = 2.5;
 
 interface RevealScreenProps {
     socket: Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -14,38 +30,53 @@ interface RevealScreenProps {
 }
 
 export default function RevealScreen({ socket, onPlayAgain }: RevealScreenProps) {
-    const { room, isHost } = useGameStore();
-    const [revealData, setRevealData] = useState<RevealData | null>(null);
+    const { room, playerId, can } = useGameStore();
     const [showSentence, setShowSentence] = useState(false);
+    const voteDeadline = room?.gameState.voteDeadline;
+    const [voteTimeLeft, setVoteTimeLeft] = useState(() => secondsUntil(voteDeadline));
 
-    // Get player name by question type
-    const getPlayerNameByQuestion = (questionType: QuestionType): string => {
-        if (!room) return '';
-        const player = room.players.find(p => p.assignedQuestion === questionType);
-        return player?.name || 'Unknown';
-    };
+    // The server's canonical story - never rebuilt on the client
+    const revealData = room?.gameState.reveal;
+    const hasReveal = !!revealData;
+    const round = room?.gameState.currentRound;
 
     useEffect(() => {
-        if (room && room.gameState.answers) {
-            const { answers } = room.gameState;
+        if (!hasReveal) return;
 
-            if (answers.who && answers.withWhom && answers.where && answers.how) {
-                const who = answers.who.answer;
-                const withWhom = answers.withWhom.answer;
-                const where = answers.where.answer;
-                const how = answers.how.answer;
-                const sentence = `${who} was with ${withWhom} at ${where}, and they did it ${how}.`;
+        // Dramatic reveal after 2 seconds
+        const timer = setTimeout(() => setShowSentence(true), 2000);
+        return () => clearTimeout(timer);
+    }, [hasReveal, round]);
 
-                setRevealData({ who, withWhom, where, how, sentence });
+    useEffect(() => {
+        if (!voteDeadline) return;
 
-                // Dramatic reveal after 2 seconds
-                setTimeout(() => setShowSentence(true), 2000);
-            }
-        }
-    }, [room]);
+        setVoteTimeLeft(secondsUntil(voteDeadline));
+        const interval = setInterval(() => {
+            const remaining = secondsUntil(voteDeadline);
+            setVoteTimeLeft(remaining);
+            if (remaining === 0) clearInterval(interval);
+        }, 250);
+        return () => clearInterval(interval);
+    }, [voteDeadline]);
 
     if (!room || !revealData) return null;
 
+    const isVoting = room.gameState.phase === 'voting';
+    const voteResult = room.gameState.voteResult;
+    const myVote = playerId ? room.gameState.votes[playerId] : undefined;
+
+    // Same rule as the server: players who sat the round out vote, or everyone if nobody did
+    const authorIds = new Set(revealData.stories.flatMap(story => story.slots).map(slot => slot.authorId));
+    const watchers = room.players.filter(p => !authorIds.has(p.id));
+    const voters = watchers.length > 0 ? watchers : room.players;
+    const canVote = isVoting && !myVote && voters.some(p => p.id === playerId);
+    const votedCount = voters.filter(p => p.hasVoted).length;
+
+    const isMultiStory = revealData.stories.length > 1;
+    // Everything after the stories waits for the last one to play out
+    const afterStories = (revealData.stories.length - 1) * STORY_STAGGER_SECONDS;
+
     const handleNewRound = () => {
         socket.emit('new-round');
         onPlayAgain();
@@ -80,64 +111,107 @@ export default function RevealScreen({ socket, onPlayAgain }: RevealScreenProps)
                         animate={{ opacity: 1, y: 0 }}
                         transition={{ duration: 0.8 }}
                     >
-                        {/* Individual Answers with Player Names */}
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4 mb-6 md:mb-8">
-                            {[
-                                { label: 'Who?', answer: revealData.who, color: 'from-indigo-500 to-purple-500', questionType: 'who' as QuestionType },
-                                { label: 'With whom?', answer: revealData.withWhom, color: 'from-purple-500 to-pink-500', questionType: 'withWhom' as QuestionType },
-                                { label: 'Where?', answer: revealData.where, color: 'from-pink-500 to-rose-500', questionType: 'where' as QuestionType },
-                                { label: 'How?', answer: revealData.how, color: 'from-rose-500 to-orange-500', questionType: 'how' as QuestionType },
-                            ].map((item, index) => (
-                                <motion.div
-                                    key={item.label}
-                                    initial={{ opacity: 0, x: index % 2 === 0 ? -50 : 50 }}
-                                    animate={{ opacity: 1, x: 0 }}
-                                    transition={{ delay: index * 0.2, duration: 0.5 }}
-                                    className="glass rounded-xl md:rounded-2xl p-4 md:p-6"
-                                >
-                                    <div className="flex items-center justify-between mb-2 md:mb-3">
-                                        <span className="text-xs md:text-sm text-gray-400">{item.label}</span>
-                                        <span className={`text-xs md:text-sm font-semibold px-2 py-0.5 md:px-3 md:py-1 rounded-full bg-gradient-to-r ${item.color} bg-opacity-20 text-white`}>
-                                            {getPlayerNameByQuestion(item.questionType)}
-                                        </span>
-                                    </div>
-                                    <div className={`text-xl md:text-2xl font-bold bg-gradient-to-r ${item.color} bg-clip-text text-transparent`}>
-                                        {item.answer}
-                                    </div>
-                                </motion.div>
-                            ))}
-                        </div>
+                        {/* One story per group, revealed in order */}
+                        {revealData.stories.map((story, storyIndex) => {
+                            const storyDelay = storyIndex * STORY_STAGGER_SECONDS;
 
-                        {/* Full Sentence */}
-                        <motion.div
-                            initial={{ opacity: 0, scale: 0.9 }}
-                            animate={{ opacity: 1, scale: 1 }}
-                            transition={{ delay: 0.8, duration: 0.5 }}
-                            className="glass rounded-xl md:rounded-2xl p-4 md:p-8 mb-6 md:mb-8 glow"
-                        >
-                            <div className="text-center">
-                                <div className="text-xs md:text-sm text-gray-400 mb-3 md:mb-4">Complete Story</div>
-                                <p className="text-xl md:text-3xl font-bold leading-relaxed">
-                                    {revealData.sentence.split(' ').map((word, i) => (
-                                        <motion.span
-                                            key={i}
+                            return (
+                                <div key={story.group}>
+                                    {isMultiStory && (
+                                        <motion.h3
                                             initial={{ opacity: 0 }}
                                             animate={{ opacity: 1 }}
-                                            transition={{ delay: 1 + i * 0.1 }}
-                                            className="inline-block mr-1.5 md:mr-2"
+                                            transition={{ delay: storyDelay }}
+                                            className="text-lg md:text-2xl font-black text-gray-300 mb-3 md:mb-4"
                                         >
-                                            {word}
-                                        </motion.span>
-                                    ))}
-                                </p>
-                            </div>
-                        </motion.div>
+                                            Story {getStoryName(story.group)}
+                                        </motion.h3>
+                                    )}
+                                    {/* Individual Answers with Player Names */}
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4 mb-6 md:mb-8">
+                                        {story.slots.map((slot, index) => ({
+                                            ...slot,
+                                            color: SLOT_COLORS[index % SLOT_COLORS.length]
+                                        })).map((item, index) => (
+                                            <motion.div
+                                                key={item.key}
+                                                initial={{ opacity: 0, x: index % 2 === 0 ? -50 : 50 }}
+                                                animate={{ opacity: 1, x: 0 }}
+                                                transition={{ delay: storyDelay + index * 0.2, duration: 0.5 }}
+                                                className="glass rounded-xl md:rounded-2xl p-4 md:p-6"
+                                            >
+                                                <div className="flex items-center justify-between mb-2 md:mb-3">
+                                                    <span className="text-xs md:text-sm text-gray-400">{item.label}</span>
+                                                    <span className={`text-xs md:text-sm font-semibold px-2 py-0.5 md:px-3 md:py-1 rounded-full bg-gradient-to-r ${item.color} bg-opacity-20 text-white`}>
+                                                        {item.authorName || 'Nobody'}
+                                                    </span>
+                                                </div>
+                                                <div className={`text-xl md:text-2xl font-bold bg-gradient-to-r ${item.color} bg-clip-text text-transparent`}>
+                                                    {item.answer}
+                                                </div>
+                                                {item.autoFilled && (
+                                                    <div className="mt-2 text-xs md:text-sm italic text-gray-500">🎲 Auto-filled</div>
+                                                )}
+                                                {canVote && item.authorId && item.authorId !== playerId && !item.autoFilled && (
+                                                    <button
+                                                        onClick={() => socket.emit('cast-vote', item.key)}
+                                                        className="mt-3 w-full py-2 rounded-lg bg-white/5 border border-white/10 hover:bg-white/15 text-sm font-semibold text-gray-200 flex items-center justify-center gap-2 transition-all"
+                                                    >
+                                                        <Vote className="w-4 h-4" />
+                                                        Vote
+                                                    </button>
+                                                )}
+                                                {isVoting && myVote === item.key && (
+                                                    <div className="mt-3 text-center text-sm font-semibold text-green-400">Your vote ✓</div>
+                                                )}
+                                                {voteResult && (
+                                                    <div className="mt-3 flex items-center justify-between text-xs md:text-sm text-gray-400">
+                                                        <span>{voteResult.tally[item.key] ?? 0} vote{voteResult.tally[item.key] === 1 ? '' : 's'}</span>
+                                                        {voteResult.winners.includes(item.key) && (
+                                                            <span className="flex items-center gap-1 font-semibold text-amber-300">
+                                                                <Trophy className="w-4 h-4" />
+                                                                Favourite
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </motion.div>
+                                        ))}
+                                    </div>
+
+                                    {/* Full Sentence */}
+                                    <motion.div
+                                        initial={{ opacity: 0, scale: 0.9 }}
+                                        animate={{ opacity: 1, scale: 1 }}
+                                        transition={{ delay: storyDelay + 0.8, duration: 0.5 }}
+                                        className="glass rounded-xl md:rounded-2xl p-4 md:p-8 mb-6 md:mb-8 glow"
+                                    >
+                                        <div className="text-center">
+                                            <div className="text-xs md:text-sm text-gray-400 mb-3 md:mb-4">Complete Story</div>
+                                            <p className="text-xl md:text-3xl font-bold leading-relaxed">
+                                                {story.sentence.split(' ').map((word, i) => (
+                                                    <motion.span
+                                                        key={i}
+                                                        initial={{ opacity: 0 }}
+                                                        animate={{ opacity: 1 }}
+                                                        transition={{ delay: storyDelay + 1 + i * 0.1 }}
+                                                        className="inline-block mr-1.5 md:mr-2"
+                                                    >
+                                                        {word}
+                                                    </motion.span>
+                                                ))}
+                                            </p>
+                                        </div>
+                                    </motion.div>
+                                </div>
+                            );
+                        })}
 
                         {/* Reactions */}
                         <motion.div
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
-                            transition={{ delay: 2 }}
+                            transition={{ delay: afterStories + 2 }}
                             className="flex justify-center gap-3 md:gap-4 mb-6 md:mb-8"
                         >
                             {['🔥', '😜', '🤣', '😂', '🔥'].map((emoji, i) => (
@@ -151,11 +225,33 @@ export default function RevealScreen({ socket, onPlayAgain }: RevealScreenProps)
                             ))}
                         </motion.div>
 
+                        {/* Voting status */}
+                        {isVoting && (
+                            <div className="glass rounded-xl md:rounded-2xl px-6 py-4 mb-6 md:mb-8 text-center">
+                                <p className="text-base md:text-lg font-bold text-white mb-1">
+                                    {canVote ? 'Vote for your favourite answer!' : 'Votes are coming in...'}
+                                </p>
+                                <p className="text-xs md:text-sm text-gray-400">
+                                    {votedCount}/{voters.length} voted · {voteTimeLeft}s left
+                                </p>
+                            </div>
+                        )}
+
+                        {/* Scores */}
+                        {!isVoting && (voteResult || Object.keys(room.scores).length > 0) && (
+                            <Scoreboard
+                                players={room.players}
+                                scores={room.scores}
+                                roundPoints={voteResult?.pointsAwarded}
+                                myId={playerId}
+                            />
+                        )}
+
                         {/* Ad Banner */}
                         <motion.div
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
-                            transition={{ delay: 2.2 }}
+                            transition={{ delay: afterStories + 2.2 }}
                             className="mb-6 md:mb-8"
                         >
                             <AdBanner
@@ -168,10 +264,10 @@ export default function RevealScreen({ socket, onPlayAgain }: RevealScreenProps)
                         <motion.div
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
-                            transition={{ delay: 2.5 }}
+                            transition={{ delay: afterStories + 2.5 }}
                             className="flex justify-center gap-4"
                         >
-                            {isHost() ? (
+                            {isVoting ? null : can('start-game') ? (
                                 <div className="flex flex-col md:flex-row gap-3 md:gap-4 justify-center">
                                     <button
                                         onClick={handleNewRound}
@@ -196,6 +292,16 @@ export default function RevealScreen({ socket, onPlayAgain }: RevealScreenProps)
                                 </div>
                             )}
                         </motion.div>
+
+                        {/* Previous Stories */}
+                        <motion.div
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            transition={{ delay: afterStories + 2.8 }}
+                            className="mt-6 md:mt-8"
+                        >
+                            <StoryHistory socket={socket} excludeRound={round} refreshKey={round} />
+                        </motion.div>
                     </motion.div>
                 )}
             </div>
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { ServerToClientEvents, ClientToServerEvents, PublicRoomSummary } from '@/types/game';
+import { Globe, RefreshCw, Users } from 'lucide-react';
+
+interface RoomBrowserProps {
+    socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+    onClose: () => void;
+    onJoin: (roomCode: string) => void;
+}
+
+export default function RoomBrowser({ socket, onClose, onJoin }: RoomBrowserProps) {
+    const [rooms, setRooms] = useState<PublicRoomSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refresh = useCallback(() => {
+        setIsLoading(true);
+        socket.emit('list-public-rooms', (publicRooms) => {
+            setRooms(publicRooms);
+            setIsLoading(false);
+        });
+    }, [socket]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-md flex items-center justify-center p-4 z-50 animate-fadeIn">
+            <div className="relative max-w-md w-full">
+                <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/20 to-pink-500/20 rounded-3xl blur-2xl"></div>
+                <div className="relative glass rounded-3xl p-8 border-2 border-white/10">
+                    <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-3xl font-black gradient-text flex items-center gap-2">
+                            <Globe className="w-7 h-7 text-indigo-400" />
+                            Public Rooms
+                        </h2>
+                        <button
+                            onClick={refresh}
+                            disabled={isLoading}
+                            className="p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                            title="Refresh"
+                        >
+                            <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+
+                    <div className="space-y-2 max-h-96 overflow-y-auto mb-6">
+                        {rooms.length === 0 ? (
+                            <p className="text-center text-gray-400 py-8">
+                                {isLoading ? 'Looking for rooms...' : 'No public rooms right now. Create one!'}
+                            </p>
+                        ) : (
+                            rooms.map((room) => (
+                                <div key={room.code} className="glass rounded-xl p-3 border border-white/10 flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="font-semibold text-white truncate">{room.hostName}&apos;s room</div>
+                                        <div className="text-xs text-gray-400 flex items-center gap-2">
+                                            <span className="flex items-center gap-1">
+                                                <Users className="w-3 h-3" />
+                                                {room.playerCount}/{room.maxPlayers}
+                                            </span>
+                                            <span>· {room.packName}</span>
+                                            <span className="uppercase">· {room.language}</span>
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => onJoin(room.code)}
+                                        className="btn-primary px-4 py-2 text-sm font-bold shrink-0"
+                                    >
+                                        Join
+                                    </button>
+                                </div>
+                            ))
+                        )}
+                    </div>
+
+                    <button onClick={onClose} className="btn-secondary w-full text-lg py-3">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
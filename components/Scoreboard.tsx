@@ -0,0 +1,62 @@
+'use client';
+
+import type { Player } from '@/types/game';
+import { Trophy } from 'lucide-react';
+
+interface ScoreboardProps {
+    players: Player[];
+    scores: Record<string, number>;
+    title?: string;
+    roundPoints?: Record<string, number>; // Points earned in the round just voted on
+    myId?: string | null;
+}
+
+export default function Scoreboard({ players, scores, title = 'Scoreboard', roundPoints, myId }: ScoreboardProps) {
+    // Players who left keep their points on the room but drop off the board
+    const ranked = [...players]
+        .map(player => ({ player, score: scores[player.id] ?? 0 }))
+        .sort((a, b) => b.score - a.score);
+
+    if (ranked.length === 0) return null;
+
+    const topScore = ranked[0].score;
+
+    return (
+        <div className="relative rounded-xl md:rounded-2xl overflow-hidden mb-3 md:mb-8 animate-fadeIn">
+            <div className="absolute inset-0 bg-gradient-to-br from-amber-500/5 to-pink-500/5 backdrop-blur-xl border border-white/5"></div>
+            <div className="relative p-3 md:p-6">
+                <div className="flex items-center gap-3 mb-3 md:mb-4">
+                    <Trophy className="w-5 h-5 text-amber-400" />
+                    <h4 className="font-bold text-base md:text-lg text-gray-300">{title}</h4>
+                </div>
+                <div className="space-y-1.5 md:space-y-2">
+                    {ranked.map(({ player, score }, index) => {
+                        const gained = roundPoints?.[player.id] ?? 0;
+                        const isLeader = score > 0 && score === topScore;
+
+                        return (
+                            <div
+                                key={player.id}
+                                className={`flex items-center justify-between rounded-lg px-3 py-2 border ${player.id === myId ? 'bg-indigo-500/10 border-indigo-500/30' : 'bg-white/5 border-white/10'}`}
+                            >
+                                <div className="flex items-center gap-2 md:gap-3 min-w-0">
+                                    <span className="text-xs md:text-sm text-gray-500 w-5 text-right">{index + 1}</span>
+                                    <span className="text-sm md:text-base font-semibold text-white truncate">
+                                        {player.name}
+                                    </span>
+                                    {isLeader && <span className="text-sm">👑</span>}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {gained > 0 && (
+                                        <span className="text-xs font-semibold text-green-400">+{gained}</span>
+                                    )}
+                                    <span className="text-sm md:text-base font-black text-amber-300">{score}</span>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
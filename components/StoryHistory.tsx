@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Socket } from 'socket.io-client';
+import type { ServerToClientEvents, ClientToServerEvents, RoundRecord } from '@/types/game';
+import { getStoryName } from '@/lib/question-packs';
+import { BookOpen, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface StoryHistoryProps {
+    socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+    excludeRound?: number; // Hide the round currently on screen
+    refreshKey?: number | string; // Refetch when this changes (e.g. after a new reveal)
+}
+
+export default function StoryHistory({ socket, excludeRound, refreshKey }: StoryHistoryProps) {
+    const [rounds, setRounds] = useState<RoundRecord[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+
+    useEffect(() => {
+        const handleHistory = (history: RoundRecord[]) => setRounds(history);
+
+        socket.on('history', handleHistory);
+        socket.emit('get-history');
+
+        return () => {
+            socket.off('history', handleHistory);
+        };
+    }, [socket, refreshKey]);
+
+    // Newest first
+    const stories = rounds.filter(r => r.round !== excludeRound).reverse();
+
+    if (stories.length === 0) return null;
+
+    return (
+        <div className="relative rounded-xl md:rounded-2xl overflow-hidden mb-3 md:mb-8 animate-fadeIn">
+            <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/5 to-pink-500/5 backdrop-blur-xl border border-white/5"></div>
+            <div className="relative p-3 md:p-6">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="w-full flex items-center justify-between gap-3"
+                >
+                    <div className="flex items-center gap-3">
+                        <BookOpen className="w-5 h-5 text-indigo-400" />
+                        <h4 className="font-bold text-base md:text-lg text-gray-300">
+                            Previous Stories ({stories.length})
+                        </h4>
+                    </div>
+                    {isOpen ? (
+                        <ChevronUp className="w-5 h-5 text-gray-400" />
+                    ) : (
+                        <ChevronDown className="w-5 h-5 text-gray-400" />
+                    )}
+                </button>
+
+                {isOpen && (
+                    <div className="mt-3 md:mt-4 space-y-3">
+                        {stories.map((story) => (
+                            <div key={`${story.round}-${story.revealedAt}`} className="glass rounded-xl p-3 md:p-4 border border-white/10">
+                                <div className="text-xs text-gray-500 mb-1">
+                                    Round {story.round} · {new Date(story.revealedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </div>
+                                {story.stories.map((groupStory) => (
+                                    <div key={groupStory.group} className="mt-2 first:mt-0">
+                                        <p className="text-sm md:text-base font-semibold text-white mb-2">
+                                            {story.stories.length > 1 && (
+                                                <span className="text-indigo-300 mr-1.5">{getStoryName(groupStory.group)}.</span>
+                                            )}
+                                            {groupStory.sentence}
+                                        </p>
+                                        <div className="flex flex-wrap gap-1.5">
+                                            {groupStory.slots.map((slot) => (
+                                                <span
+                                                    key={slot.key}
+                                                    className="text-[10px] md:text-xs px-2 py-0.5 rounded-full bg-white/5 text-gray-400 border border-white/10"
+                                                >
+                                                    {slot.label} {slot.authorName || 'Nobody'}{slot.autoFilled && ' 🎲'}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
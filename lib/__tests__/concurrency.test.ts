@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate } from 'node:timers/promises';
+import type { Room, RoomSettings, RoundRecord } from '@/types/game';
+import { type RoomRepository, retryOnConflict } from '../room-repository';
+import { createRoom, joinRoom, startGame, submitAnswer } from '../game-engine';
+import { getRoom, getRoundHistory, useRoomRepository } from '../rooms';
+
+/**
+ * A room store whose updates interleave like they do on Redis: every update
+ * yields between reading the room and writing it back, and only commits if no
+ * other write landed in between, retrying through the same loop as Redis does.
+ */
+function createInterleavingRepository() {
+    const rooms = new Map<string, { data: string; version: number }>();
+    const histories = new Map<string, RoundRecord[]>();
+    const stats = { conflicts: 0 };
+
+    const repository: RoomRepository = {
+        name: 'interleaving',
+        connect: async () => {},
+        getRoom: async (roomCode) => {
+            const entry = rooms.get(roomCode);
+            return entry ? JSON.parse(entry.data) : null;
+        },
+        insertRoom: async (room) => {
+            if (rooms.has(room.code)) return false;
+            rooms.set(room.code, { data: JSON.stringify(room), version: 0 });
+            return true;
+        },
+        updateRoom: <T>(roomCode: string, mutate: (room: Room) => T) => retryOnConflict<T>(async () => {
+            const read = rooms.get(roomCode);
+            if (!read) return { outcome: 'missing' };
+
+            const room: Room = JSON.parse(read.data);
+            const result = mutate(room);
+            await setImmediate();
+
+            if (rooms.get(roomCode)?.version !== read.version) {
+                stats.conflicts++;
+                return { outcome: 'conflict', players: room.players.length };
+            }
+            const updated = JSON.stringify(room);
+            if (updated !== read.data) {
+                rooms.set(roomCode, { data: updated, version: read.version + 1 });
+            }
+            return { outcome: 'committed', result };
+        }),
+        deleteRoom: async (roomCode) => {
+            rooms.delete(roomCode);
+            histories.delete(roomCode);
+        },
+        getPublicRooms: async () => [],
+        appendRoundHistory: async (roomCode, record) => {
+            histories.set(roomCode, [...(histories.get(roomCode) ?? []), record]);
+        },
+        getRoundHistory: async (roomCode) => histories.get(roomCode) ?? []
+    };
+
+    return { repository, stats };
+}
+
+const SETTINGS: RoomSettings = {
+    maxPlayers: 12,
+    language: 'en',
+    timerSeconds: 60,
+    packId: 'classic',
+    voteSeconds: 0,
+    voteTieBreak: 'share',
+    parallelGroups: true,
+    chainMode: false,
+    autoStart: false,
+    hostSuccession: 'longest-present',
+    visibility: 'private'
+};
+
+const NAMES = ['Ann', 'Ben', 'Cat', 'Dan', 'Eve', 'Fay', 'Gus', 'Hal', 'Ivy', 'Jon', 'Kim', 'Lou'];
+
+test('answers submitted at the same time are all stored', async () => {
+    const { repository, stats } = createInterleavingRepository();
+    useRoomRepository(repository);
+
+    const room = await createRoom('socket-Ann', NAMES[0], SETTINGS);
+    for (const name of NAMES.slice(1)) {
+        const joined = await joinRoom(room.code, `socket-${name}`, name);
+        assert.equal(joined.success, true);
+    }
+
+    const started = (await startGame(room.code, room.hostId)).room;
+    assert.ok(started);
+    const writers = started.players.filter(player => player.assignedQuestion);
+    // Three groups of four, so more writers race than a fixed five tries would let through
+    assert.equal(started.gameState.answers.length, 3);
+    assert.equal(writers.length, NAMES.length);
+
+    const results = await Promise.all(
+        writers.map(writer => submitAnswer(room.code, writer.id, `answer from ${writer.name}`))
+    );
+
+    assert.ok(results.every(result => result.success));
+    // Exactly one submission completes the round
+    assert.equal(results.filter(result => result.shouldReveal).length, 1);
+    // The writes really did race
+    assert.ok(stats.conflicts > 0);
+
+    const final = await getRoom(room.code);
+    assert.ok(final);
+    assert.equal(final.gameState.phase, 'reveal');
+    const { answers } = final.gameState;
+    for (const writer of writers) {
+        assert.equal(answers[writer.groupIndex!][writer.assignedQuestion!]?.answer, `answer from ${writer.name}`);
+    }
+    assert.equal((await getRoundHistory(room.code)).length, 1);
+});
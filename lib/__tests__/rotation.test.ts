@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planRound, type RotationPlayer } from '../rotation';
+
+const QUESTIONS = ['who', 'withWhom', 'where', 'how'];
+
+const PLAYERS: RotationPlayer[] = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => ({ id, roundsPlayed: 0 }));
+
+function byPlayer(plan: ReturnType<typeof planRound>) {
+    return [...plan].sort((x, y) => x.playerId.localeCompare(y.playerId));
+}
+
+test('the same seed gives the same plan whatever order the players come in', () => {
+    const plan = planRound(PLAYERS, QUESTIONS, 1, 42);
+    const shuffled = [PLAYERS[3], PLAYERS[0], PLAYERS[5], PLAYERS[1], PLAYERS[4], PLAYERS[2]];
+
+    assert.deepEqual(byPlayer(planRound(shuffled, QUESTIONS, 1, 42)), byPlayer(plan));
+    assert.deepEqual(byPlayer(planRound([...PLAYERS].reverse(), QUESTIONS, 1, 42)), byPlayer(plan));
+});
+
+test('every slot gets exactly one writer per group', () => {
+    const plan = planRound(PLAYERS, QUESTIONS, 1, 7);
+
+    assert.equal(plan.length, QUESTIONS.length);
+    assert.deepEqual(plan.map(entry => entry.question).sort(), [...QUESTIONS].sort());
+    assert.equal(new Set(plan.map(entry => entry.playerId)).size, plan.length);
+});
+
+test('players who have written the fewest rounds are picked first', () => {
+    const players: RotationPlayer[] = [
+        { id: 'a', roundsPlayed: 3 },
+        { id: 'b', roundsPlayed: 1 },
+        { id: 'c', roundsPlayed: 0 },
+        { id: 'd', roundsPlayed: 2 },
+        { id: 'e', roundsPlayed: 1 },
+        { id: 'f', roundsPlayed: 0 }
+    ];
+
+    for (let seed = 0; seed < 20; seed++) {
+        const picked = planRound(players, QUESTIONS, 1, seed).map(entry => entry.playerId).sort();
+        assert.deepEqual(picked, ['b', 'c', 'e', 'f']);
+    }
+});
+
+test('nobody repeats the slot they wrote last when it can be avoided', () => {
+    const players: RotationPlayer[] = QUESTIONS.map((question, i) => ({ id: `p${i}`, roundsPlayed: 1, lastSlot: question }));
+
+    for (let seed = 0; seed < 20; seed++) {
+        for (const entry of planRound(players, QUESTIONS, 1, seed)) {
+            const player = players.find(p => p.id === entry.playerId)!;
+            assert.notEqual(entry.question, player.lastSlot);
+        }
+    }
+});
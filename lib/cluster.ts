@@ -0,0 +1,66 @@
+import { randomUUID } from 'crypto';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { connectRedis, createPubSubClients } from './redis-client';
+import { getRoomRepository } from './rooms';
+
+/**
+ * Several server instances can serve the same rooms when rooms live in Redis:
+ * the Socket.IO Redis adapter relays broadcasts between them and deadlines go
+ * through the shared scheduler (scheduler.ts). With the memory store there is
+ * only ever one instance.
+ */
+export function isClustered(): boolean {
+    return getRoomRepository().name === 'redis';
+}
+
+/**
+ * Relay emits through Redis so they reach sockets connected to other instances.
+ * Call after connectRooms() and before serving players; returns whether it did.
+ */
+export async function attachClusterAdapter(io: any): Promise<boolean> {
+    if (!isClustered()) return false;
+
+    const { pubClient, subClient } = await createPubSubClients();
+    io.adapter(createAdapter(pubClient, subClient));
+    return true;
+}
+
+const LOCK_PREFIX = 'lock:';
+const LOCK_TTL_MS = 10000; // A lock whose holder died frees itself after this
+const LOCK_WAIT_MS = 10000;
+const LOCK_RETRY_MS = 25;
+
+// Release a lock only while it is still ours; it may have expired and been taken since
+const RELEASE_LOCK = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Run a task while holding a lock shared by every server instance, so tasks
+ * under the same name never overlap anywhere. With a single instance the task
+ * just runs.
+ */
+export async function withClusterLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+    if (!isClustered()) return task();
+
+    const client = await connectRedis();
+    const key = `${LOCK_PREFIX}${name}`;
+    const token = randomUUID();
+    const giveUpAt = Date.now() + LOCK_WAIT_MS;
+
+    while (await client.set(key, token, { NX: true, PX: LOCK_TTL_MS }) !== 'OK') {
+        if (Date.now() >= giveUpAt) {
+            throw new Error('The server is busy, please try again');
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+        return await task();
+    } finally {
+        await client.eval(RELEASE_LOCK, { keys: [key], arguments: [token] });
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * Whole seconds left until a server deadline (epoch ms), rounded up so the
+ * countdown only shows 0 once the deadline has passed; 0 if there is none
+ */
+export function secondsUntil(deadline?: number): number {
+    if (!deadline) return 0;
+    return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
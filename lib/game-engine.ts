@@ -1,274 +1,993 @@
-import type { Room, Player, QuestionType, RoomSettings, RevealData } from '@/types/game';
-import { saveRoom, getRoom, roomExists } from './redis-client';
-import { generateRoomCode } from './room-code-generator';
+import { nanoid } from 'nanoid';
+import type { Room, Player, QuestionType, QuestionPack, QuestionSlot, RoomSettings, RevealData, RevealStory, GroupAnswers, CustomPackInput, VoteResult, VoteTieBreak, HostSuccession, PlayerRole, PlayerPresence, JoinError, PublicRoomSummary, RoomVisibility } from '@/types/game';
+import { getRoom, updateRoom, insertRoom, appendRoundHistory, getPublicRooms } from './rooms';
+import { generateRoomCode, validateVanityCode } from './room-code-generator';
 import { validateAnswer } from './profanity-filter';
+import { CUSTOM_PACK_ID, DEFAULT_PACK_ID, QUESTION_PACKS, getRoomPack, validateCustomPack } from './question-packs';
+import { createSeed, getRoundSeed, planRound } from './rotation';
+import { pickFiller } from './word-bank';
+import { can, outranks } from './permissions';
+import { MAX_PASSPHRASE_LENGTH, hashPassphrase, normalizePassphrase, verifyPassphrase } from './passphrase';
 
-const QUESTIONS: QuestionType[] = ['who', 'withWhom', 'where', 'how'];
+const DEFAULT_TIMER_SECONDS = 60;
+const TIMER_OPTIONS = [30, 60, 90, 120];
+
+// Extra time allowed for answers already in flight when the deadline passes;
+// the round is only expired once it is over too
+export const DEADLINE_GRACE_MS = 2000;
+
+// Time a spectator gets at least when they take over a slot whose writer left
+const MIN_REPLACEMENT_SECONDS = 20;
+
+const DEFAULT_VOTE_SECONDS = 30;
+const MAX_VOTE_SECONDS = 120;
+const VOTE_TIE_BREAKS: VoteTieBreak[] = ['share', 'earliest', 'none'];
+const HOST_SUCCESSIONS: HostSuccession[] = ['longest-present', 'most-active', 'random'];
+const VISIBILITIES: RoomVisibility[] = ['private', 'public'];
+
+// Points for the author of a slot, per vote received
+const POINTS_PER_VOTE = 1;
+// Extra points for the author of the round's most voted slot
+const WINNER_BONUS = 2;
+
+// Ready-check countdown before an auto-start
+const AUTO_START_SECONDS = 5;
+
+// Fresh codes to try before giving up on creating a room
+const MAX_CODE_ATTEMPTS = 10;
+
+/**
+ * Snap a requested answer time to the nearest offered one
+ */
+function normalizeTimerSeconds(seconds: unknown): number {
+    if (typeof seconds !== 'number' || !Number.isFinite(seconds)) return DEFAULT_TIMER_SECONDS;
+    return TIMER_OPTIONS.reduce((best, option) =>
+        Math.abs(option - seconds) < Math.abs(best - seconds) ? option : best
+    );
+}
+
+/**
+ * Keep a requested vote duration within the allowed range (0 turns voting off)
+ */
+function normalizeVoteSeconds(seconds: unknown): number {
+    if (typeof seconds !== 'number' || !Number.isFinite(seconds)) return DEFAULT_VOTE_SECONDS;
+    return Math.min(MAX_VOTE_SECONDS, Math.max(0, Math.round(seconds)));
+}
 
 /**
- * Create a new game room
+ * Create a new game room, under a host-chosen code if one is given.
+ * Throws if the chosen code is invalid or taken, or no free code was found.
  */
 export async function createRoom(
-    hostId: string,
+    socketId: string,
     hostName: string,
-    settings: RoomSettings
+    settings: RoomSettings,
+    options: { deviceId?: string; passphrase?: string | null; code?: string | null } = {}
 ): Promise<Room> {
-    let roomCode: string;
+    const { deviceId, passphrase } = options;
 
-    // Ensure unique room code
-    do {
-        roomCode = generateRoomCode();
-    } while (await roomExists(roomCode));
+    let vanityCode: string | undefined;
+    if (options.code) {
+        const checked = validateVanityCode(options.code);
+        if (!checked.code) throw new Error(checked.error);
+        vanityCode = checked.code;
+    }
 
+    const hostId = nanoid();
     const host: Player = {
         id: hostId,
+        socketId,
+        deviceId,
         name: hostName,
+        role: 'host',
         isHost: true,
-        isReady: false
+        isReady: false,
+        presence: 'connected'
     };
 
     const room: Room = {
-        code: roomCode,
+        code: vanityCode ?? '',
         hostId,
         players: [host],
-        settings,
+        settings: {
+            ...settings,
+            timerSeconds: normalizeTimerSeconds(settings.timerSeconds),
+            packId: QUESTION_PACKS.some(p => p.id === settings.packId) ? settings.packId : DEFAULT_PACK_ID,
+            voteSeconds: normalizeVoteSeconds(settings.voteSeconds),
+            voteTieBreak: VOTE_TIE_BREAKS.includes(settings.voteTieBreak) ? settings.voteTieBreak : 'share',
+            parallelGroups: !!settings.parallelGroups,
+            chainMode: !!settings.chainMode,
+            autoStart: !!settings.autoStart,
+            hostSuccession: HOST_SUCCESSIONS.includes(settings.hostSuccession) ? settings.hostSuccession : 'longest-present',
+            visibility: VISIBILITIES.includes(settings.visibility) ? settings.visibility : 'private'
+        },
         gameState: {
             phase: 'lobby',
             currentRound: 0,
-            answers: {},
+            answers: [],
             currentTurnIndex: 0,
             questionOrder: [],
-            rotationIndex: 0
+            seed: createSeed(),
+            votes: {}
         },
+        scores: {},
         createdAt: Date.now()
     };
 
-    await saveRoom(room);
-    return room;
+    // Passphrases only guard private rooms; one that is too long is dropped rather than cut
+    const secret = normalizePassphrase(passphrase);
+    if (room.settings.visibility === 'private' && secret && secret.length <= MAX_PASSPHRASE_LENGTH) {
+        room.passphraseHash = await hashPassphrase(secret);
+        room.hasPassphrase = true;
+    }
+
+    if (vanityCode) {
+        if (!(await insertRoom(room))) {
+            throw new Error('That room code is already taken');
+        }
+        return room;
+    }
+
+    // Storing the room reserves its code, so a clash just means trying another one
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        room.code = generateRoomCode();
+        if (await insertRoom(room)) return room;
+    }
+
+    throw new Error('Could not find a free room code');
 }
 
 /**
- * Add a player to a room
+ * Add a player to a room. Mid-game joiners are pending: they watch until the
+ * next round starts and then enter the rotation. Anyone without a seat needs the
+ * passphrase, including a player rejoining after being removed. The passphrase
+ * is checked before the room update, which only accepts it if the room still
+ * has the hash it was checked against.
  */
 export async function joinRoom(
+    roomCode: string,
+    socketId: string,
+    playerName: string,
+    access: { deviceId?: string; passphrase?: string | null } = {}
+): Promise<{ success: boolean; room?: Room; player?: Player; error?: JoinError }> {
+    const { deviceId, passphrase } = access;
+    const playerId = nanoid();
+    const attempt = normalizePassphrase(passphrase);
+
+    let verifiedHash: string | null = null;
+    if (attempt) {
+        const current = await getRoom(roomCode);
+        if (current?.passphraseHash && await verifyPassphrase(attempt, current.passphraseHash)) {
+            verifiedHash = current.passphraseHash;
+        }
+    }
+
+    const result = await updateRoom(roomCode, (room): { success: boolean; room?: Room; player?: Player; error?: JoinError } => {
+        if (isBanned(room, deviceId)) {
+            return { success: false, error: 'banned' };
+        }
+
+        if (room.passphraseHash && room.passphraseHash !== verifiedHash) {
+            return { success: false, error: attempt ? 'wrong-passphrase' : 'passphrase-required' };
+        }
+
+        if (room.players.length >= room.settings.maxPlayers) {
+            return { success: false, error: 'room-full' };
+        }
+
+        // Check for duplicate names
+        if (room.players.some(p => p.name === playerName)) {
+            return { success: false, error: 'name-taken' };
+        }
+
+        const newPlayer: Player = {
+            id: playerId,
+            socketId,
+            deviceId,
+            name: playerName,
+            role: 'player',
+            isHost: false,
+            isReady: false,
+            presence: 'connected'
+        };
+
+        if (room.gameState.phase !== 'lobby') {
+            newPlayer.isPending = true;
+            // Level with the least-played player so the newcomer doesn't play every round to catch up
+            newPlayer.roundsPlayed = Math.min(...room.players.map(p => p.roundsPlayed ?? 0));
+        }
+
+        room.players.push(newPlayer);
+        // The newcomer isn't ready yet, which calls off a running countdown
+        updateAutoStart(room);
+
+        return { success: true, room, player: newPlayer };
+    });
+    return result ?? { success: false, error: 'room-not-found' };
+}
+
+/**
+ * Attach a player's new socket after a verified reconnect
+ */
+export async function reconnectPlayer(
     roomCode: string,
     playerId: string,
-    playerName: string
-): Promise<{ success: boolean; room?: Room; error?: string }> {
-    const room = await getRoom(roomCode);
+    socketId: string
+): Promise<{ room: Room; player: Player; hostReturned?: boolean } | null> {
+    return updateRoom(roomCode, room => {
+        const player = room.players.find(p => p.id === playerId);
+        if (!player) return null;
+
+        player.socketId = socketId;
+        player.presence = 'connected';
+
+        // A host back within the grace window takes over from whoever stood in
+        const hostReturned = room.absentHostId === playerId;
+        if (hostReturned) {
+            setHost(room, player, room.standInRole);
+            room.standInRole = undefined;
+        }
 
-    if (!room) {
-        return { success: false, error: 'Room not found' };
-    }
+        return { room, player, hostReturned };
+    });
+}
 
-    if (room.gameState.phase !== 'lobby') {
-        return { success: false, error: 'Game already in progress' };
-    }
+/**
+ * Show a player whose connection dropped as reconnecting while their grace
+ * period runs, unless they are already back on another socket
+ */
+export async function markReconnecting(roomCode: string, playerId: string, socketId: string): Promise<Room | null> {
+    return updateRoom(roomCode, room => {
+        const player = room.players.find(p => p.id === playerId);
+        if (!player || player.socketId !== socketId) return null;
 
-    if (room.players.length >= room.settings.maxPlayers) {
-        return { success: false, error: 'Room is full' };
-    }
+        player.presence = 'reconnecting';
+        return room;
+    });
+}
 
-    // Check for duplicate names
-    if (room.players.some(p => p.name === playerName)) {
-        return { success: false, error: 'Name already taken' };
-    }
+/**
+ * Show a connected player as away (tab hidden or idle) or back again.
+ * Returns the room if that changed anything.
+ */
+export async function setAway(roomCode: string, playerId: string, away: boolean): Promise<Room | null> {
+    return updateRoom(roomCode, room => {
+        const player = room.players.find(p => p.id === playerId);
+        if (!player || player.presence === 'reconnecting') return null;
 
-    const newPlayer: Player = {
-        id: playerId,
-        name: playerName,
-        isHost: false,
-        isReady: false
-    };
+        const presence: PlayerPresence = away ? 'away' : 'connected';
+        if ((player.presence ?? 'connected') === presence) return null;
+
+        player.presence = presence;
+        return room;
+    });
+}
 
-    room.players.push(newPlayer);
-    await saveRoom(room);
+export type PlayerRemoval = { room: Room; replacement?: Player; newHost?: Player };
+type KickResult = { success: boolean; kicked?: Player; banned?: boolean; removal?: PlayerRemoval | null; error?: string };
 
-    return { success: true, room };
+/**
+ * Remove a player from a room. If they were still writing a slot, a spectator
+ * takes it over (returned as the replacement); with nobody to take it, the slot
+ * is listed in orphanedSlots until the deadline fills it or the host forces the reveal.
+ * Returns null once the room is empty.
+ */
+export async function removePlayer(roomCode: string, playerId: string): Promise<PlayerRemoval | null> {
+    return updateRoom(roomCode, room => removeFromRoom(room, playerId));
 }
 
 /**
- * Remove a player from a room
+ * Remove a player whose disconnect grace period ran out, unless they already left
+ * or came back on a new socket (a rejoin attaches one)
  */
-export async function removePlayer(
+export async function expireGracePeriod(
     roomCode: string,
-    playerId: string
-): Promise<Room | null> {
-    const room = await getRoom(roomCode);
-    if (!room) return null;
+    playerId: string,
+    socketId: string
+): Promise<{ removed: false } | { removed: true; removal: PlayerRemoval | null }> {
+    const result = await updateRoom(roomCode, room => {
+        const player = room.players.find(p => p.id === playerId);
+        if (!player || player.socketId !== socketId) return { removed: false as const };
 
+        return { removed: true as const, removal: removeFromRoom(room, playerId) };
+    });
+    return result ?? { removed: false };
+}
+
+/**
+ * Kick a player, and with `ban` keep their device out of the room for as long as
+ * it exists (`banned` is false if their client sent no device id). Co-hosts
+ * can't kick the host or each other.
+ */
+export async function kickPlayer(
+    roomCode: string,
+    actorId: string,
+    playerId: string,
+    ban: boolean
+): Promise<KickResult> {
+    const result = await updateRoom(roomCode, (room): KickResult => {
+        if (!can(room, actorId, 'kick-player')) {
+            return { success: false, error: 'Only host can kick players' };
+        }
+
+        const kicked = room.players.find(p => p.id === playerId);
+        if (!kicked || !outranks(room, actorId, playerId)) {
+            return { success: false, error: 'Player not found' };
+        }
+
+        const banned = ban && addBan(room, kicked);
+        return { success: true, kicked, banned, removal: removeFromRoom(room, playerId) };
+    });
+    return result ?? { success: false, error: 'Room not found' };
+}
+
+/**
+ * Take a player out of a room being updated (see removePlayer)
+ */
+function removeFromRoom(room: Room, playerId: string): PlayerRemoval | null {
+    const leaving = room.players.find(p => p.id === playerId);
     room.players = room.players.filter(p => p.id !== playerId);
 
-    // If host left, assign new host or delete room
+    let replacement: Player | undefined;
+    if (room.gameState.phase === 'playing' && leaving?.assignedQuestion && !leaving.hasAnswered) {
+        replacement = reassignOrphanedSlot(room, leaving.assignedQuestion, leaving.groupIndex ?? 0);
+    }
+
+    if (room.players.length === 0) {
+        // Room is empty, can be deleted
+        return null;
+    }
+
+    // The host's stand-in keeps the room once the host is gone for good
+    if (room.absentHostId === playerId) {
+        room.absentHostId = undefined;
+        room.standInRole = undefined;
+    }
+
+    // If host left, hand the room on by the succession policy
+    let newHost: Player | undefined;
     if (playerId === room.hostId) {
-        if (room.players.length > 0) {
-            room.hostId = room.players[0].id;
-            room.players[0].isHost = true;
+        newHost = pickSuccessor(room, room.absentHostId);
+        if (room.absentHostId) {
+            // A stand-in left while the host is still away: the next one stands in for them
+            setStandInHost(room, newHost);
         } else {
-            // Room is empty, can be deleted
-            return null;
+            setHost(room, newHost);
         }
     }
 
-    await saveRoom(room);
-    return room;
+    // A writer leaving calls off the countdown; it starts over if everyone left is still ready
+    if (leaving && leaving.role !== 'spectator') {
+        room.gameState.autoStartAt = undefined;
+    }
+    updateAutoStart(room);
+
+    return { room, replacement, newHost };
 }
 
 /**
- * Rotational question assignment - assigns questions to groups of 4 players in rotation
- * With 8 players: Round 1 = players 0-3, Round 2 = players 4-7, Round 3 = players 0-3, etc.
+ * Whether a device is banned from the room
  */
-function assignQuestionsWithRotation(players: Player[], rotationIndex: number): void {
-    const totalPlayers = players.length;
+export function isBanned(room: Room, deviceId?: string): boolean {
+    return !!deviceId && !!room.bans?.some(ban => ban.deviceId === deviceId);
+}
 
-    // Calculate how many complete groups of 4 we have
-    const numGroups = Math.ceil(totalPlayers / 4);
+/**
+ * Keep a player's device out of the room. Returns false if their client sent no device id.
+ */
+function addBan(room: Room, player: Player): boolean {
+    if (!player.deviceId) return false;
+
+    room.bans = [
+        ...(room.bans ?? []),
+        { id: nanoid(), playerName: player.name, deviceId: player.deviceId, bannedAt: Date.now() }
+    ];
+    return true;
+}
 
-    // Normalize rotation index to wrap around
-    const currentGroup = rotationIndex % numGroups;
+/**
+ * Let a banned device join again
+ */
+export async function liftBan(roomCode: string, banId: string): Promise<Room | null> {
+    return updateRoom(roomCode, room => {
+        if (!room.bans?.some(ban => ban.id === banId)) return null;
 
-    // Calculate which players should get questions this round
-    const startIndex = currentGroup * 4;
-    const playersThisRound: Player[] = [];
+        room.bans = room.bans.filter(ban => ban.id !== banId);
 
-    // Select 4 players starting from startIndex, wrapping around if needed
-    for (let i = 0; i < 4 && i < totalPlayers; i++) {
-        const playerIndex = (startIndex + i) % totalPlayers;
-        playersThisRound.push(players[playerIndex]);
+        return room;
+    });
+}
+
+/**
+ * Choose the next host by the room's succession policy, among the co-hosts if
+ * there are any, passing over a player who is away unless nobody else is left.
+ * Players are kept in join order, so the first one is the longest present.
+ */
+function pickSuccessor(room: Room, awayId?: string): Player {
+    const present = room.players.filter(p => p.id !== awayId);
+    const available = present.length > 0 ? present : room.players;
+    const coHosts = available.filter(p => p.role === 'co-host');
+    const candidates = coHosts.length > 0 ? coHosts : available;
+
+    switch (room.settings.hostSuccession) {
+        case 'most-active': {
+            const activity = (p: Player) => [p.roundsPlayed ?? 0, room.scores[p.id] ?? 0];
+            // Stable sort, so ties go to the longest present
+            return [...candidates].sort((a, b) => {
+                const [roundsA, scoreA] = activity(a);
+                const [roundsB, scoreB] = activity(b);
+                return roundsB - roundsA || scoreB - scoreA;
+            })[0];
+        }
+        case 'random':
+            return candidates[Math.floor(Math.random() * candidates.length)];
+        default:
+            return candidates[0];
     }
+}
 
-    // Build a map of previous questions for smart assignment
-    const previousAssignments = new Map<string, QuestionType>();
-    playersThisRound.forEach(p => {
-        if (p.previousQuestion) {
-            previousAssignments.set(p.id, p.previousQuestion);
+/**
+ * Make a player the room's host; the previous host becomes a regular player,
+ * or takes the given role back
+ */
+function setHost(room: Room, host: Player, formerHostRole: Exclude<PlayerRole, 'host'> = 'player'): void {
+    for (const player of room.players) {
+        if (player.id === host.id) {
+            player.role = 'host';
+        } else if (player.role === 'host') {
+            player.role = formerHostRole;
         }
+        player.isHost = player.id === host.id;
+    }
+    room.hostId = host.id;
+}
+
+/**
+ * Put a stand-in in charge while the host is away, remembering the role they
+ * had so they get it back when the host returns
+ */
+function setStandInHost(room: Room, standIn: Player, formerHostRole?: Exclude<PlayerRole, 'host'>): void {
+    const { role } = standIn;
+    setHost(room, standIn, formerHostRole);
+    room.standInRole = role === 'host' ? undefined : role;
+}
+
+/**
+ * Host hands the room to another player on purpose. The handover is final: a
+ * host standing in for a dropped host keeps the role when the old host returns.
+ */
+export async function transferHost(
+    roomCode: string,
+    hostId: string,
+    newHostId: string
+): Promise<{ success: boolean; room?: Room; error?: string }> {
+    const result = await updateRoom(roomCode, room => {
+        if (!can(room, hostId, 'transfer-host')) {
+            return { success: false, error: 'Only host can hand over the room' };
+        }
+
+        const newHost = room.players.find(p => p.id === newHostId);
+        if (!newHost || newHost.id === hostId) {
+            return { success: false, error: 'Player not found' };
+        }
+
+        setHost(room, newHost);
+        room.absentHostId = undefined;
+        room.standInRole = undefined;
+
+        return { success: true, room };
     });
+    return result ?? { success: false, error: 'Room not found' };
+}
 
-    // Shuffle the selected players for question variety
-    const shuffledPlayers = [...playersThisRound].sort(() => Math.random() - 0.5);
-    const availableQuestions = [...QUESTIONS];
-
-    // Assign questions avoiding repeats when possible
-    const assignments = new Map<string, QuestionType>();
-    const assignedQuestions = new Set<QuestionType>();
-
-    // Try to assign each player a different question than their previous one
-    for (const player of shuffledPlayers) {
-        const prevQuestion = previousAssignments.get(player.id);
-
-        // Find a question that's not their previous one and not already assigned
-        let assigned = false;
-        for (const question of availableQuestions) {
-            if (!assignedQuestions.has(question) && question !== prevQuestion) {
-                assignments.set(player.id, question);
-                assignedQuestions.add(question);
-                assigned = true;
-                break;
-            }
+/**
+ * Change another player's role. Only roles below the actor's can be handed out or
+ * taken away, so nobody can promote themselves or demote the host.
+ */
+export async function setPlayerRole(
+    roomCode: string,
+    actorId: string,
+    targetId: string,
+    role: Exclude<PlayerRole, 'host'>
+): Promise<{ success: boolean; room?: Room; error?: string }> {
+    const result = await updateRoom(roomCode, room => {
+        if (!can(room, actorId, 'assign-roles')) {
+            return { success: false, error: 'Only host can change roles' };
         }
 
-        // If we couldn't avoid the previous question, just assign any available one
-        if (!assigned) {
-            for (const question of availableQuestions) {
-                if (!assignedQuestions.has(question)) {
-                    assignments.set(player.id, question);
-                    assignedQuestions.add(question);
-                    break;
-                }
-            }
+        const target = room.players.find(p => p.id === targetId);
+        if (!target || !outranks(room, actorId, targetId)) {
+            return { success: false, error: 'Player not found' };
+        }
+
+        if (!['co-host', 'player', 'spectator'].includes(role)) {
+            return { success: false, error: 'Invalid role' };
         }
 
-        // Stop if we've assigned all 4 questions
-        if (assignedQuestions.size >= 4) break;
+        target.role = role;
+        // A new spectator no longer counts towards the ready check
+        updateAutoStart(room);
+
+        return { success: true, room };
+    });
+    return result ?? { success: false, error: 'Room not found' };
+}
+
+/**
+ * Put a stand-in host in charge while the host is in the disconnect grace window.
+ * Returns null when there is nothing to do (not the host, or nobody else to stand in).
+ */
+export async function coverForAbsentHost(
+    roomCode: string,
+    playerId: string
+): Promise<{ room: Room; newHost: Player } | null> {
+    return updateRoom(roomCode, room => {
+        if (room.hostId !== playerId || room.players.length < 2) return null;
+
+        const newHost = pickSuccessor(room, playerId);
+        // A stand-in who drops too goes back to their own role
+        const standInDropped = !!room.absentHostId && room.absentHostId !== playerId;
+        setStandInHost(room, newHost, standInDropped ? room.standInRole : undefined);
+        // Only the original host can reclaim the room, not a stand-in who dropped too
+        room.absentHostId ??= playerId;
+
+        return { room, newHost };
+    });
+}
+
+/**
+ * Hand a slot whose writer left to the spectator who has played the fewest
+ * rounds, topping up the deadline if it is their turn. Returns the new writer,
+ * or undefined if nobody is free (the slot is then recorded as orphaned).
+ */
+function reassignOrphanedSlot(room: Room, question: QuestionType, group: number): Player | undefined {
+    const spectators = getWriters(room)
+        .filter(p => !p.assignedQuestion)
+        .sort((a, b) => (a.roundsPlayed ?? 0) - (b.roundsPlayed ?? 0));
+    const writer = spectators[0];
+
+    if (!writer) {
+        room.gameState.orphanedSlots = [...(room.gameState.orphanedSlots ?? []), { group, question }];
+        return undefined;
     }
 
+    writer.assignedQuestion = question;
+    writer.groupIndex = group;
+    writer.hasAnswered = false;
+    writer.isPending = false;
+    writer.lastSlot = question;
+    writer.roundsPlayed = (writer.roundsPlayed ?? 0) + 1;
+
+    const minDeadline = Date.now() + MIN_REPLACEMENT_SECONDS * 1000;
+    if (isPlayersTurn(room, writer) && (room.gameState.deadline ?? 0) < minDeadline) {
+        room.gameState.deadline = minDeadline;
+    }
+
+    return writer;
+}
+
+/**
+ * Assign slots for the round that is starting. Players who have written the
+ * fewest rounds play next, so joins and leaves never make anyone play several
+ * rounds in a row while others sit out; nobody repeats their last slot when it
+ * can be avoided. With parallel groups, every full group of players writes its
+ * own story at the same time. The plan is seeded per round (see lib/rotation.ts).
+ * Returns the number of story groups.
+ */
+function assignQuestionsWithRotation(room: Room, questions: QuestionType[]): number {
+    const { players } = room;
+    const writers = getWriters(room);
+    const groupSize = questions.length;
+    const groupCount = room.settings.parallelGroups && writers.length >= groupSize * 2
+        ? Math.floor(writers.length / groupSize)
+        : 1;
+
+    const plan = planRound(
+        writers.map(p => ({ id: p.id, roundsPlayed: p.roundsPlayed ?? 0, lastSlot: p.lastSlot })),
+        questions,
+        groupCount,
+        getRoundSeed(room.gameState.seed ?? 0, room.gameState.currentRound)
+    );
+    const assignments = new Map(plan.map(assignment => [assignment.playerId, assignment]));
+
     // Apply assignments to ALL players
     for (const player of players) {
-        const question = assignments.get(player.id);
-        if (question) {
-            player.previousQuestion = player.assignedQuestion; // Save current as previous
-            player.assignedQuestion = question;
-            player.hasAnswered = false;
+        const assignment = assignments.get(player.id);
+        player.hasAnswered = false;
+        if (assignment) {
+            player.assignedQuestion = assignment.question;
+            player.groupIndex = assignment.groupIndex;
+            player.lastSlot = assignment.question;
+            player.roundsPlayed = (player.roundsPlayed ?? 0) + 1;
         } else {
             // Player doesn't have a question this round (they watch)
-            player.previousQuestion = player.assignedQuestion;
             player.assignedQuestion = undefined;
-            player.hasAnswered = false;
+            player.groupIndex = undefined;
         }
     }
+
+    return groupCount;
+}
+
+/**
+ * Players who can be given a slot to write (everyone but spectators)
+ */
+function getWriters(room: Room): Player[] {
+    return room.players.filter(p => p.role !== 'spectator');
+}
+
+/**
+ * Set the absolute deadline for the round that is about to start
+ */
+function startRoundClock(room: Room): void {
+    room.gameState.roundStartedAt = Date.now();
+    startTurnClock(room);
+}
+
+/**
+ * Set the deadline for the answers being written now (a whole round, or one chain turn)
+ */
+function startTurnClock(room: Room): void {
+    const seconds = room.settings.timerSeconds || DEFAULT_TIMER_SECONDS;
+    room.gameState.deadline = Date.now() + seconds * 1000;
+}
+
+/**
+ * In chain mode only the writers of the open slot may answer; otherwise everyone writes at once
+ */
+export function isPlayersTurn(room: Room, player: Player): boolean {
+    if (!room.settings.chainMode) return true;
+    return player.assignedQuestion === room.gameState.questionOrder[room.gameState.currentTurnIndex];
+}
+
+/**
+ * The answer a chain writer builds on: the previous slot's answer in their own story
+ */
+export function getPreviousAnswer(room: Room, player: Player): string | undefined {
+    if (!room.settings.chainMode || !player.assignedQuestion) return undefined;
+
+    const { questionOrder, answers } = room.gameState;
+    const index = questionOrder.indexOf(player.assignedQuestion);
+    if (index <= 0) return undefined;
+
+    return answers[player.groupIndex ?? 0]?.[questionOrder[index - 1]]?.answer;
+}
+
+/**
+ * Whether a group's slot has an answer (its own key, never one inherited by the object)
+ */
+function isAnswered(answers: GroupAnswers, slot: QuestionType): boolean {
+    return Object.hasOwn(answers, slot);
+}
+
+/**
+ * Chain mode: once every group has answered the open slot, open the next one
+ * with a fresh deadline. Groups move in lockstep. Returns true if the turn moved on.
+ */
+function advanceChainTurn(room: Room): boolean {
+    const { answers, questionOrder, currentTurnIndex } = room.gameState;
+    const openSlot = questionOrder[currentTurnIndex];
+
+    if (!answers.every(group => isAnswered(group, openSlot))) return false;
+    if (currentTurnIndex >= questionOrder.length - 1) return false;
+
+    room.gameState.currentTurnIndex++;
+    startTurnClock(room);
+    return true;
 }
 
 /**
  * Start the game - assign questions to players
  */
-export async function startGame(roomCode: string): Promise<Room | null> {
-    const room = await getRoom(roomCode);
-    if (!room || room.gameState.phase !== 'lobby') return null;
+export async function startGame(
+    roomCode: string,
+    playerId: string
+): Promise<{ success: boolean; room?: Room; error?: string }> {
+    const result = await updateRoom(roomCode, room => {
+        if (!can(room, playerId, 'start-game')) {
+            return { success: false, error: 'Only host can start the game' };
+        }
+        if (room.gameState.phase !== 'lobby') {
+            return { success: false, error: 'The game has already started' };
+        }
 
-    if (room.players.length < 4) {
-        throw new Error('Need at least 4 players to start');
-    }
+        beginGame(room);
+        return { success: true, room };
+    });
+    return result ?? { success: false, error: 'Room not found' };
+}
+
+/**
+ * Move a lobby into the first round. Throws if there are too few writers.
+ */
+function beginGame(room: Room): void {
+    const questions = getRoomPack(room).slots.map(slot => slot.id);
 
-    // Use rotational assignment for questions
-    assignQuestionsWithRotation(room.players, room.gameState.rotationIndex);
+    if (getWriters(room).length < questions.length) {
+        throw new Error(`Need at least ${questions.length} players to start`);
+    }
 
     room.gameState.phase = 'playing';
+    room.gameState.autoStartAt = undefined;
     room.gameState.currentRound++;
     room.gameState.currentTurnIndex = 0;
-    room.gameState.answers = {};
-    room.gameState.questionOrder = QUESTIONS;
-    // Increment rotation index for next round
-    room.gameState.rotationIndex++;
 
-    await saveRoom(room);
-    return room;
+    // Fair, seeded assignment for the round that is starting
+    const groupCount = assignQuestionsWithRotation(room, questions);
+
+    room.gameState.answers = Array.from({ length: groupCount }, () => ({}));
+    room.gameState.orphanedSlots = undefined;
+    room.gameState.reveal = undefined;
+    clearVoting(room);
+    room.gameState.questionOrder = questions;
+    startRoundClock(room);
 }
 
 /**
- * Submit an answer for the current question
+ * Flip a player's ready state in the lobby, starting or calling off the
+ * auto-start countdown as needed
  */
-export async function submitAnswer(
+export async function toggleReady(
     roomCode: string,
-    playerId: string,
-    answer: string
-): Promise<{ success: boolean; room?: Room; error?: string; shouldReveal?: boolean }> {
-    const room = await getRoom(roomCode);
-    if (!room || room.gameState.phase !== 'playing') {
-        return { success: false, error: 'Invalid game state' };
-    }
+    playerId: string
+): Promise<{ success: boolean; room?: Room; error?: string }> {
+    const result = await updateRoom(roomCode, room => {
+        if (room.gameState.phase !== 'lobby') {
+            return { success: false, error: 'You can only get ready in the lobby' };
+        }
 
-    const player = room.players.find(p => p.id === playerId);
-    if (!player || !player.assignedQuestion) {
-        return { success: false, error: 'Player not found or no question assigned' };
+        const player = room.players.find(p => p.id === playerId);
+        if (!player) {
+            return { success: false, error: 'Player not found' };
+        }
+
+        player.isReady = !player.isReady;
+        updateAutoStart(room);
+
+        return { success: true, room };
+    });
+    return result ?? { success: false, error: 'Room not found' };
+}
+
+/**
+ * Start the countdown when auto-start is on, every player is ready and there are
+ * enough of them; call it off as soon as that stops being true. A countdown
+ * already running keeps its deadline (a writer leaving clears it first, so it restarts).
+ */
+function updateAutoStart(room: Room): void {
+    if (room.gameState.phase !== 'lobby') return;
+
+    // Spectators don't write, so they neither count nor need to be ready
+    const writers = getWriters(room);
+    const minPlayers = getRoomPack(room).slots.length;
+    const everyoneReady =
+        room.settings.autoStart &&
+        writers.length >= minPlayers &&
+        writers.every(p => p.isReady);
+
+    if (!everyoneReady) {
+        room.gameState.autoStartAt = undefined;
+    } else if (!room.gameState.autoStartAt) {
+        room.gameState.autoStartAt = Date.now() + AUTO_START_SECONDS * 1000;
     }
+}
+
+/**
+ * Start the game when its ready-check countdown runs out.
+ * Returns null if the timer is stale (countdown called off or restarted).
+ */
+export async function autoStartGame(roomCode: string, autoStartAt: number): Promise<Room | null> {
+    return updateRoom(roomCode, room => {
+        if (room.gameState.phase !== 'lobby' || room.gameState.autoStartAt !== autoStartAt) {
+            return null;
+        }
+
+        if (Date.now() < autoStartAt) {
+            return null;
+        }
+
+        beginGame(room);
+        return room;
+    });
+}
+
+type AnswerResult = { success: boolean; room?: Room; error?: string; shouldReveal?: boolean; turnAdvanced?: boolean };
+
+/**
+ * Submit an answer for the current question
+ */
+export async function submitAnswer(roomCode: string, playerId: string, answer: string): Promise<AnswerResult> {
+    return storeAnswer(roomCode, playerId, answer);
+}
+
+/**
+ * Skip the current question, letting the word bank fill the slot
+ */
+export async function skipAnswer(roomCode: string, playerId: string): Promise<AnswerResult> {
+    return storeAnswer(roomCode, playerId);
+}
 
-    if (player.hasAnswered) {
-        return { success: false, error: 'Already answered' };
+/**
+ * Store a player's answer, or a word-bank filler when they skip (no answer given)
+ */
+async function storeAnswer(roomCode: string, playerId: string, answer?: string): Promise<AnswerResult> {
+    const result = await updateRoom(roomCode, room => {
+        if (room.gameState.phase !== 'playing') {
+            return { success: false, error: 'Invalid game state' };
+        }
+
+        const player = room.players.find(p => p.id === playerId);
+        if (!player || !player.assignedQuestion) {
+            return { success: false, error: 'Player not found or no question assigned' };
+        }
+
+        if (player.hasAnswered) {
+            return { success: false, error: 'Already answered' };
+        }
+
+        if (!isPlayersTurn(room, player)) {
+            return { success: false, error: 'Not your turn yet' };
+        }
+
+        const { deadline } = room.gameState;
+        if (deadline && Date.now() > deadline + DEADLINE_GRACE_MS) {
+            return { success: false, error: 'Time is up for this round' };
+        }
+
+        const groupAnswers = room.gameState.answers[player.groupIndex ?? 0];
+        if (!groupAnswers) {
+            return { success: false, error: 'Invalid game state' };
+        }
+
+        if (answer === undefined) {
+            groupAnswers[player.assignedQuestion] = {
+                playerId: player.id,
+                playerName: player.name,
+                answer: pickFillerFor(room, groupAnswers, player.assignedQuestion),
+                submittedAt: Date.now(),
+                autoFilled: true
+            };
+        } else {
+            // Validate answer
+            const validation = validateAnswer(answer);
+            if (!validation.isValid) {
+                return { success: false, error: validation.error };
+            }
+
+            groupAnswers[player.assignedQuestion] = {
+                playerId: player.id,
+                playerName: player.name,
+                answer: validation.cleanedText,
+                submittedAt: Date.now()
+            };
+        }
+        player.hasAnswered = true;
+
+        // Check if all answers are in, across every story group
+        const allAnswered = room.gameState.answers.every(group =>
+            room.gameState.questionOrder.every(q => isAnswered(group, q))
+        );
+
+        let turnAdvanced = false;
+        if (allAnswered) {
+            enterReveal(room);
+        } else if (room.settings.chainMode) {
+            turnAdvanced = advanceChainTurn(room);
+        }
+
+        return { success: true, room, shouldReveal: allAnswered, turnAdvanced };
+    });
+
+    if (result?.shouldReveal && result.room) {
+        await recordRound(result.room);
     }
+    return result ?? { success: false, error: 'Invalid game state' };
+}
 
-    // Validate answer
-    const validation = validateAnswer(answer);
-    if (!validation.isValid) {
-        return { success: false, error: validation.error };
+/**
+ * Auto-fill every open slot once the deadline and its grace period have passed,
+ * so answers auto-submitted right at the deadline still count. In chain mode only the
+ * current turn's slot is open, and the round moves on to the next turn (still
+ * 'playing') until the last one. Returns null if the timer is stale (round or
+ * turn already over, reset or replaced).
+ */
+export async function expireRound(roomCode: string, round: number, turn: number): Promise<Room | null> {
+    const room = await updateRoom(roomCode, room => {
+        if (
+            room.gameState.phase !== 'playing' ||
+            room.gameState.currentRound !== round ||
+            room.gameState.currentTurnIndex !== turn
+        ) {
+            return null;
+        }
+
+        const { deadline } = room.gameState;
+        if (deadline && Date.now() < deadline + DEADLINE_GRACE_MS) {
+            return null;
+        }
+
+        const openSlots = room.settings.chainMode
+            ? [room.gameState.questionOrder[room.gameState.currentTurnIndex]]
+            : room.gameState.questionOrder;
+
+        fillOpenSlots(room, openSlots);
+
+        if (!room.settings.chainMode || !advanceChainTurn(room)) {
+            enterReveal(room);
+        }
+
+        return room;
+    });
+
+    // Still 'playing' means a chain round moved on to its next turn
+    if (room && room.gameState.phase !== 'playing') {
+        await recordRound(room);
     }
+    return room;
+}
 
-    // Store answer
-    room.gameState.answers[player.assignedQuestion] = {
-        playerId: player.id,
-        answer: validation.cleanedText
-    };
-    player.hasAnswered = true;
+/**
+ * Host override: reveal now, filling every empty slot from the word bank
+ */
+export async function forceReveal(roomCode: string): Promise<Room | null> {
+    const room = await updateRoom(roomCode, room => {
+        if (room.gameState.phase !== 'playing') return null;
 
-    // Check if all answers are in
-    const allAnswered = QUESTIONS.every(q => room.gameState.answers[q]);
+        fillOpenSlots(room, room.gameState.questionOrder);
+        enterReveal(room);
 
-    if (allAnswered) {
-        room.gameState.phase = 'reveal';
+        return room;
+    });
+
+    if (room) {
+        await recordRound(room);
     }
+    return room;
+}
 
-    await saveRoom(room);
-    return { success: true, room, shouldReveal: allAnswered };
+/**
+ * Fill the given slots from the word bank wherever they are still empty
+ */
+function fillOpenSlots(room: Room, openSlots: QuestionType[]): void {
+    // Submit on behalf of writers who ran out of time
+    for (const player of room.players) {
+        const groupAnswers = room.gameState.answers[player.groupIndex ?? 0];
+        if (player.assignedQuestion && openSlots.includes(player.assignedQuestion) && !player.hasAnswered && groupAnswers) {
+            groupAnswers[player.assignedQuestion] = {
+                playerId: player.id,
+                playerName: player.name,
+                answer: pickFillerFor(room, groupAnswers, player.assignedQuestion),
+                submittedAt: Date.now(),
+                autoFilled: true
+            };
+            player.hasAnswered = true;
+        }
+    }
+
+    // Slots whose writer left the room have nobody to submit for them
+    for (const groupAnswers of room.gameState.answers) {
+        for (const question of openSlots) {
+            if (!isAnswered(groupAnswers, question)) {
+                groupAnswers[question] = {
+                    playerId: '',
+                    playerName: '',
+                    answer: pickFillerFor(room, groupAnswers, question),
+                    submittedAt: Date.now(),
+                    autoFilled: true
+                };
+            }
+        }
+    }
+}
+
+/**
+ * Pick a word-bank filler for a slot, matching its category and not repeating
+ * anything already in the story
+ */
+function pickFillerFor(room: Room, groupAnswers: GroupAnswers, question: QuestionType): string {
+    const slot = getRoomPack(room).slots.find(s => s.id === question);
+    const used = Object.values(groupAnswers).map(entry => entry!.answer);
+    return pickFiller(slot?.category, used);
 }
 
 /**
@@ -336,55 +1055,302 @@ function formatSentence(sentence: string): string {
 }
 
 /**
- * Generate reveal data from answers
+ * Shape one answer for its place in the sentence template
  */
-export function generateReveal(room: Room): RevealData | null {
-    const { answers } = room.gameState;
+function formatSlotAnswer(slot: QuestionSlot, answer: string): string {
+    let text = answer.trim();
 
-    if (!answers.who || !answers.withWhom || !answers.where || !answers.how) {
-        return null;
+    // For mid-sentence slots, lowercase the first letter if it starts with a capital
+    if (slot.lowercase) {
+        text = text.charAt(0).toLowerCase() + text.slice(1);
     }
 
-    const who = answers.who.answer.trim();
-    const withWhom = answers.withWhom.answer.trim();
-    const where = answers.where.answer.trim();
-    const how = answers.how.answer.trim();
+    // Smart preposition handling
+    if (slot.preposition) {
+        text = formatWithPreposition(text, slot.preposition);
+    }
 
-    // Build sentence with smart preposition handling
-    const withWhomPart = formatWithPreposition(withWhom, 'with');
-    const wherePart = formatWithPreposition(where, 'at');
+    return text;
+}
+
+/**
+ * Build one group's story from its answers
+ */
+function generateStory(pack: QuestionPack, answers: GroupAnswers, group: number): RevealStory | null {
+    if (!pack.slots.every(slot => isAnswered(answers, slot.id))) {
+        return null;
+    }
 
-    // For "how", lowercase the first letter if it starts with a capital
-    const howFormatted = how.charAt(0).toLowerCase() + how.slice(1);
+    const slots = pack.slots.map(slot => {
+        const entry = answers[slot.id]!;
+        return {
+            key: `${group}:${slot.id}`,
+            questionType: slot.id,
+            label: slot.label,
+            answer: entry.answer.trim(),
+            authorId: entry.playerId,
+            authorName: entry.playerName,
+            submittedAt: entry.submittedAt,
+            missing: !entry.playerId,
+            autoFilled: entry.autoFilled
+        };
+    });
 
-    // Build raw sentence
-    const rawSentence = `${who} was ${withWhomPart} ${wherePart}, ${howFormatted}.`;
+    // Build raw sentence from the pack template
+    const rawSentence = pack.template.replace(/\{(\w+)\}/g, (placeholder, slotId: string) => {
+        const slot = pack.slots.find(s => s.id === slotId);
+        const answer = isAnswered(answers, slotId) ? answers[slotId] : undefined;
+        return slot && answer ? formatSlotAnswer(slot, answer.answer) : placeholder;
+    });
 
     // Apply grammar formatting
     const sentence = formatSentence(rawSentence);
 
-    return { who, withWhom, where, how, sentence };
+    return { group, slots, sentence };
+}
+
+/**
+ * Generate reveal data from answers - one story per group, in group order
+ */
+export function generateReveal(room: Room): RevealData | null {
+    const pack = getRoomPack(room);
+    const stories: RevealStory[] = [];
+
+    for (const [group, answers] of room.gameState.answers.entries()) {
+        const story = generateStory(pack, answers, group);
+        if (!story) return null;
+        stories.push(story);
+    }
+
+    return stories.length > 0 ? { stories } : null;
+}
+
+/**
+ * Every answer slot of the round's reveal, across all stories
+ */
+function getRevealSlots(room: Room) {
+    return room.gameState.reveal?.stories.flatMap(story => story.slots) ?? [];
+}
+
+/**
+ * Move a fully answered round to the reveal, storing the canonical story on the room
+ * so every client (including one that rejoins mid-reveal) renders the same thing.
+ * When voting is on, the story is shown in the 'voting' phase first and the room
+ * moves to 'reveal' once votes are counted. Call recordRound once the room is saved.
+ */
+function enterReveal(room: Room): void {
+    room.gameState.reveal = generateReveal(room) ?? undefined;
+    room.gameState.orphanedSlots = undefined;
+    clearVoting(room);
+
+    const canVote = room.settings.voteSeconds > 0 && !!room.gameState.reveal && getVoters(room).length > 0;
+    if (canVote) {
+        room.gameState.phase = 'voting';
+        room.gameState.voteDeadline = Date.now() + room.settings.voteSeconds * 1000;
+    } else {
+        room.gameState.phase = 'reveal';
+    }
+}
+
+/**
+ * Keep a just-revealed round in the room's history. Kept out of enterReveal
+ * because room updates may be retried and the history must only grow once.
+ */
+async function recordRound(room: Room): Promise<void> {
+    if (!room.gameState.reveal) return;
+
+    await appendRoundHistory(room.code, {
+        ...room.gameState.reveal,
+        round: room.gameState.currentRound,
+        startedAt: room.gameState.roundStartedAt ?? room.createdAt,
+        revealedAt: Date.now()
+    });
+}
+
+/**
+ * Forget the previous round's votes
+ */
+function clearVoting(room: Room): void {
+    room.gameState.votes = {};
+    room.gameState.voteDeadline = undefined;
+    room.gameState.voteResult = undefined;
+    for (const player of room.players) {
+        player.hasVoted = false;
+    }
+}
+
+/**
+ * Players who vote this round: everyone who did not write a slot. When every
+ * player wrote one, they all vote instead (never for their own slot).
+ */
+function getVoters(room: Room): Player[] {
+    const authors = new Set(getRevealSlots(room).map(slot => slot.authorId));
+    const watchers = room.players.filter(p => !authors.has(p.id));
+    return watchers.length > 0 ? watchers : room.players;
+}
+
+/**
+ * Record a player's vote for their favourite slot. Counts the votes as soon as
+ * every voter has voted.
+ */
+export async function castVote(
+    roomCode: string,
+    playerId: string,
+    slotKey: string
+): Promise<{ success: boolean; room?: Room; error?: string; votingClosed?: boolean }> {
+    const result = await updateRoom(roomCode, room => {
+        if (room.gameState.phase !== 'voting') {
+            return { success: false, error: 'Voting is not open' };
+        }
+
+        const voters = getVoters(room);
+        const voter = voters.find(p => p.id === playerId);
+        if (!voter) {
+            return { success: false, error: 'You are not voting this round' };
+        }
+
+        if (room.gameState.votes[playerId]) {
+            return { success: false, error: 'Already voted' };
+        }
+
+        const slot = getRevealSlots(room).find(s => s.key === slotKey);
+        if (!slot || !slot.authorId || slot.autoFilled) {
+            return { success: false, error: 'Invalid vote' };
+        }
+        if (slot.authorId === playerId) {
+            return { success: false, error: 'You cannot vote for your own answer' };
+        }
+
+        room.gameState.votes[playerId] = slotKey;
+        voter.hasVoted = true;
+
+        const allVoted = voters.every(p => room.gameState.votes[p.id]);
+        if (allVoted) {
+            tallyVotes(room);
+        }
+
+        return { success: true, room, votingClosed: allVoted };
+    });
+    return result ?? { success: false, error: 'Voting is not open' };
+}
+
+/**
+ * Close voting once its deadline has passed.
+ * Returns null if the timer is stale (voting already closed, reset or replaced).
+ */
+export async function closeVoting(roomCode: string, round: number): Promise<Room | null> {
+    return updateRoom(roomCode, room => {
+        if (room.gameState.phase !== 'voting' || room.gameState.currentRound !== round) {
+            return null;
+        }
+
+        const { voteDeadline } = room.gameState;
+        if (voteDeadline && Date.now() < voteDeadline) {
+            return null;
+        }
+
+        tallyVotes(room);
+
+        return room;
+    });
+}
+
+/**
+ * Count the votes, award points to the authors and move on to the reveal
+ */
+function tallyVotes(room: Room): void {
+    const slots = getRevealSlots(room);
+    const tally: VoteResult['tally'] = {};
+    const pointsAwarded: VoteResult['pointsAwarded'] = {};
+
+    for (const slotKey of Object.values(room.gameState.votes)) {
+        tally[slotKey] = (tally[slotKey] ?? 0) + 1;
+    }
+
+    const award = (playerId: string, points: number) => {
+        if (!playerId) return;
+        pointsAwarded[playerId] = (pointsAwarded[playerId] ?? 0) + points;
+    };
+
+    for (const slot of slots) {
+        award(slot.authorId, (tally[slot.key] ?? 0) * POINTS_PER_VOTE);
+    }
+
+    // Winner bonus for the most voted slot, settled by the room's tie-break rule
+    const topVotes = Math.max(0, ...slots.map(slot => tally[slot.key] ?? 0));
+    let winners = topVotes > 0 ? slots.filter(slot => tally[slot.key] === topVotes) : [];
+
+    if (winners.length > 1) {
+        switch (room.settings.voteTieBreak) {
+            case 'earliest':
+                winners = [winners.reduce((first, slot) => (slot.submittedAt < first.submittedAt ? slot : first))];
+                break;
+            case 'none':
+                winners = [];
+                break;
+        }
+    }
+
+    for (const slot of winners) {
+        award(slot.authorId, WINNER_BONUS);
+    }
+
+    for (const [playerId, points] of Object.entries(pointsAwarded)) {
+        room.scores[playerId] = (room.scores[playerId] ?? 0) + points;
+    }
+
+    room.gameState.voteResult = {
+        tally,
+        winners: winners.map(slot => slot.key),
+        pointsAwarded
+    };
+    room.gameState.voteDeadline = undefined;
+    room.gameState.phase = 'reveal';
 }
 
 /**
  * Start a new round
  */
-export async function startNewRound(roomCode: string): Promise<Room | null> {
-    const room = await getRoom(roomCode);
-    if (!room || room.gameState.phase !== 'reveal') return null;
+export async function startNewRound(
+    roomCode: string,
+    playerId: string
+): Promise<{ success: boolean; room?: Room; error?: string }> {
+    const result = await updateRoom(roomCode, room => {
+        if (!can(room, playerId, 'start-game')) {
+            return { success: false, error: 'Only host can start new round' };
+        }
+        if (room.gameState.phase !== 'reveal') {
+            return { success: false, error: 'The round is not over yet' };
+        }
 
-    // Use rotational assignment - next group of players gets questions
-    assignQuestionsWithRotation(room.players, room.gameState.rotationIndex);
+        const questions = getRoomPack(room).slots.map(slot => slot.id);
 
-    room.gameState.phase = 'playing';
-    room.gameState.currentRound++;
-    room.gameState.currentTurnIndex = 0;
-    room.gameState.answers = {};
-    // Increment rotation index for next round
-    room.gameState.rotationIndex++;
+        if (getWriters(room).length < questions.length) {
+            throw new Error(`Need at least ${questions.length} players to start`);
+        }
 
-    await saveRoom(room);
-    return room;
+        // Players who joined during the last round enter the rotation now
+        for (const player of room.players) {
+            player.isPending = false;
+        }
+
+        room.gameState.phase = 'playing';
+        room.gameState.currentRound++;
+        room.gameState.currentTurnIndex = 0;
+
+        // Fair, seeded assignment for the round that is starting
+        const groupCount = assignQuestionsWithRotation(room, questions);
+
+        room.gameState.answers = Array.from({ length: groupCount }, () => ({}));
+        room.gameState.orphanedSlots = undefined;
+        room.gameState.reveal = undefined;
+        clearVoting(room);
+        room.gameState.questionOrder = questions;
+        startRoundClock(room);
+
+        return { success: true, room };
+    });
+    return result ?? { success: false, error: 'Room not found' };
 }
 
 /**
@@ -392,49 +1358,159 @@ export async function startNewRound(roomCode: string): Promise<Room | null> {
  */
 export async function resetToLobby(
     roomCode: string,
-    newSettings?: Partial<{ maxPlayers: number; timerSeconds: number }>
+    newSettings?: Partial<Pick<RoomSettings, 'maxPlayers' | 'timerSeconds' | 'packId' | 'voteSeconds' | 'voteTieBreak' | 'parallelGroups' | 'chainMode' | 'autoStart' | 'hostSuccession' | 'visibility'>>
 ): Promise<Room | null> {
-    const room = await getRoom(roomCode);
-    if (!room) return null;
+    return updateRoom(roomCode, room => {
+        // Update settings if provided
+        if (newSettings) {
+            if (newSettings.maxPlayers !== undefined) {
+                room.settings.maxPlayers = newSettings.maxPlayers;
+            }
+            if (newSettings.timerSeconds !== undefined) {
+                room.settings.timerSeconds = normalizeTimerSeconds(newSettings.timerSeconds);
+            }
+            if (newSettings.packId !== undefined) {
+                const isBuiltIn = QUESTION_PACKS.some(p => p.id === newSettings.packId);
+                const isCustom = newSettings.packId === CUSTOM_PACK_ID && !!room.customPack;
+                if (isBuiltIn || isCustom) {
+                    room.settings.packId = newSettings.packId;
+                }
+            }
+            if (newSettings.voteSeconds !== undefined) {
+                room.settings.voteSeconds = normalizeVoteSeconds(newSettings.voteSeconds);
+            }
+            if (newSettings.voteTieBreak !== undefined && VOTE_TIE_BREAKS.includes(newSettings.voteTieBreak)) {
+                room.settings.voteTieBreak = newSettings.voteTieBreak;
+            }
+            if (newSettings.parallelGroups !== undefined) {
+                room.settings.parallelGroups = !!newSettings.parallelGroups;
+            }
+            if (newSettings.chainMode !== undefined) {
+                room.settings.chainMode = !!newSettings.chainMode;
+            }
+            if (newSettings.autoStart !== undefined) {
+                room.settings.autoStart = !!newSettings.autoStart;
+            }
+            if (newSettings.hostSuccession !== undefined && HOST_SUCCESSIONS.includes(newSettings.hostSuccession)) {
+                room.settings.hostSuccession = newSettings.hostSuccession;
+            }
+            if (newSettings.visibility !== undefined && VISIBILITIES.includes(newSettings.visibility)) {
+                room.settings.visibility = newSettings.visibility;
+                // Anyone can find a public room, so a passphrase would only lock them out
+                if (newSettings.visibility === 'public') {
+                    room.passphraseHash = undefined;
+                    room.hasPassphrase = false;
+                }
+            }
+        }
 
-    // Update settings if provided
-    if (newSettings) {
-        if (newSettings.maxPlayers !== undefined) {
-            room.settings.maxPlayers = newSettings.maxPlayers;
+        // Reset game state to lobby
+        room.gameState.phase = 'lobby';
+        room.gameState.currentRound = 0;
+        room.gameState.answers = [];
+        room.gameState.reveal = undefined;
+        room.gameState.currentTurnIndex = 0;
+        room.gameState.questionOrder = [];
+        room.gameState.seed = createSeed();
+        room.gameState.deadline = undefined;
+        room.gameState.orphanedSlots = undefined;
+        room.gameState.autoStartAt = undefined;
+        clearVoting(room);
+
+        // Keep the finished game's standings for the lobby, then start scoring afresh
+        if (Object.values(room.scores).some(points => points > 0)) {
+            room.lastScores = room.scores;
         }
-        if (newSettings.timerSeconds !== undefined) {
-            room.settings.timerSeconds = newSettings.timerSeconds;
+        room.scores = {};
+
+        // Clear all player question assignments
+        for (const player of room.players) {
+            player.assignedQuestion = undefined;
+            player.groupIndex = undefined;
+            player.hasAnswered = false;
+            player.lastSlot = undefined;
+            player.roundsPlayed = 0;
+            player.isPending = false;
+            player.isReady = false;
         }
-    }
 
-    // Reset game state to lobby
-    room.gameState.phase = 'lobby';
-    room.gameState.currentRound = 0;
-    room.gameState.answers = {};
-    room.gameState.currentTurnIndex = 0;
-    room.gameState.rotationIndex = 0;
+        return room;
+    });
+}
 
-    // Clear all player question assignments
-    for (const player of room.players) {
-        player.assignedQuestion = undefined;
-        player.hasAnswered = false;
-        player.previousQuestion = undefined;
-        player.isReady = false;
+/**
+ * Set or remove (null) a private room's passphrase
+ */
+export async function setPassphrase(
+    roomCode: string,
+    passphrase: string | null
+): Promise<{ success: boolean; room?: Room; error?: string }> {
+    const secret = normalizePassphrase(passphrase);
+    if (secret && secret.length > MAX_PASSPHRASE_LENGTH) {
+        return { success: false, error: `Passphrase must be at most ${MAX_PASSPHRASE_LENGTH} characters` };
     }
+    // Hashed up front, so the room update doesn't wait on it
+    const hash = secret ? await hashPassphrase(secret) : null;
 
-    await saveRoom(room);
-    return room;
+    const result = await updateRoom(roomCode, room => {
+        if (hash) {
+            if (room.settings.visibility !== 'private') {
+                return { success: false, error: 'Only private rooms can have a passphrase' };
+            }
+            room.passphraseHash = hash;
+            room.hasPassphrase = true;
+        } else {
+            room.passphraseHash = undefined;
+            room.hasPassphrase = false;
+        }
+
+        return { success: true, room };
+    });
+    return result ?? { success: false, error: 'Room not found' };
 }
 
 /**
- * Get question label for display
+ * Open public lobbies for the room browser, newest first
  */
-export function getQuestionLabel(question: QuestionType): string {
-    const labels: Record<QuestionType, string> = {
-        who: 'Who?',
-        withWhom: 'With whom?',
-        where: 'Where?',
-        how: 'How?'
-    };
-    return labels[question];
+export async function listPublicRooms(): Promise<PublicRoomSummary[]> {
+    const rooms = await getPublicRooms();
+
+    return rooms
+        .map(room => ({
+            code: room.code,
+            hostName: room.players.find(p => p.id === room.hostId)?.name ?? '',
+            playerCount: room.players.length,
+            maxPlayers: room.settings.maxPlayers,
+            packName: getRoomPack(room).name,
+            language: room.settings.language,
+            createdAt: room.createdAt
+        }))
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Store a host-authored pack on the room and switch the room to it
+ */
+export async function setCustomPack(
+    roomCode: string,
+    input: CustomPackInput
+): Promise<{ success: boolean; room?: Room; error?: string }> {
+    const result = await updateRoom(roomCode, room => {
+        if (room.gameState.phase !== 'lobby') {
+            return { success: false, error: 'Questions can only be changed in the lobby' };
+        }
+
+        const validation = validateCustomPack(input);
+        if (!validation.isValid || !validation.pack) {
+            return { success: false, error: validation.error };
+        }
+
+        room.customPack = validation.pack;
+        room.settings.packId = CUSTOM_PACK_ID;
+        // A longer pack may need more players than are ready
+        updateAutoStart(room);
+
+        return { success: true, room };
+    });
+    return result ?? { success: false, error: 'Room not found' };
 }
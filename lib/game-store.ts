@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import type { Room, Player, QuestionType, GamePhase } from '@/types/game';
+import { can, type Permission } from './permissions';
 
 interface GameStore {
     // Connection state
@@ -18,6 +19,10 @@ interface GameStore {
     // Derived state
     getMyQuestion: () => QuestionType | null;
 
+    // Chain mode: the answer before the player's slot, sent with their turn
+    previousAnswer: string | null;
+    setPreviousAnswer: (answer: string | null) => void;
+
     // UI state
     isWaiting: boolean;
     setWaiting: (waiting: boolean) => void;
@@ -27,6 +32,7 @@ interface GameStore {
 
     // Helpers
     isHost: () => boolean;
+    can: (permission: Permission) => boolean;
     getMyPlayer: () => Player | undefined;
     hasAnswered: () => boolean;
 
@@ -42,6 +48,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     room: null,
     isWaiting: false,
     error: null,
+    previousAnswer: null,
 
     // Actions
     setConnected: (connected) => set({ isConnected: connected }),
@@ -49,6 +56,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     setRoom: (room) => set({ room }),
     setWaiting: (waiting) => set({ isWaiting: waiting }),
     setError: (error) => set({ error }),
+    setPreviousAnswer: (answer) => set({ previousAnswer: answer }),
 
     // Helpers
     getMyQuestion: () => {
@@ -62,6 +70,11 @@ export const useGameStore = create<GameStore>((set, get) => ({
         return room?.hostId === playerId;
     },
 
+    can: (permission) => {
+        const { room, playerId } = get();
+        return !!room && can(room, playerId, permission);
+    },
+
     getMyPlayer: () => {
         const { room, playerId } = get();
         return room?.players.find(p => p.id === playerId);
@@ -77,6 +90,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
         playerName: null,
         room: null,
         isWaiting: false,
-        error: null
+        error: null,
+        previousAnswer: null
     })
 }));
@@ -0,0 +1,109 @@
+import type { Room, Player, RoomSettings, JoinError } from '@/types/game';
+import { getPublicRooms } from './rooms';
+import { createRoom, joinRoom, isBanned, toggleReady } from './game-engine';
+import { DEFAULT_PACK_ID, getRoomPack } from './question-packs';
+import { withClusterLock } from './cluster';
+
+const DEFAULT_LANGUAGE = 'en';
+
+// Rooms opened by quick play: public, and starting by themselves once full enough
+const QUICK_PLAY_SETTINGS: Omit<RoomSettings, 'language'> = {
+    maxPlayers: 8,
+    timerSeconds: 60,
+    packId: DEFAULT_PACK_ID,
+    voteSeconds: 30,
+    voteTieBreak: 'share',
+    parallelGroups: false,
+    chainMode: false,
+    autoStart: true,
+    hostSuccession: 'longest-present',
+    visibility: 'public'
+};
+
+// One matchmaking queue per language; players in the same queue are placed one at a time.
+// The queue is local to this instance, and a cluster-wide lock lines the instances up.
+const queues = new Map<string, Promise<unknown>>();
+
+type QuickPlayResult = { success: boolean; room?: Room; player?: Player; created?: boolean; error?: JoinError };
+
+/**
+ * Reduce a browser language tag (e.g. "de-AT") to the language rooms are grouped by
+ */
+export function normalizeLanguage(language: unknown): string {
+    if (typeof language !== 'string') return DEFAULT_LANGUAGE;
+    const base = language.trim().toLowerCase().split(/[-_]/)[0];
+    return /^[a-z]{2,3}$/.test(base) ? base : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Run a task after everything already queued for the same language
+ */
+function enqueue<T>(language: string, task: () => Promise<T>): Promise<T> {
+    const previous = queues.get(language) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    queues.set(language, next);
+
+    // Drop the queue once it drains, unless someone joined it meanwhile
+    next.catch(() => undefined).then(() => {
+        if (queues.get(language) === next) queues.delete(language);
+    });
+
+    return next;
+}
+
+/**
+ * Public lobbies in a language this player could join, the ones closest to
+ * starting first (then the oldest), so rooms fill up one after another
+ */
+function findOpenRooms(rooms: Room[], language: string, playerName: string, deviceId?: string): Room[] {
+    return rooms
+        .filter(room =>
+            room.settings.language === language &&
+            !room.passphraseHash &&
+            !isBanned(room, deviceId) &&
+            !room.players.some(p => p.name === playerName)
+        )
+        .sort((a, b) => {
+            const aMissing = getRoomPack(a).slots.length - a.players.length;
+            const bMissing = getRoomPack(b).slots.length - b.players.length;
+            return aMissing - bMissing || a.createdAt - b.createdAt;
+        });
+}
+
+/**
+ * Mark a freshly seated player ready, returning the room as saved
+ */
+async function markReady(room: Room, playerId: string): Promise<{ success: boolean; room: Room; player?: Player }> {
+    const ready = await toggleReady(room.code, playerId);
+    const updated = ready.room ?? room;
+    return { success: true, room: updated, player: updated.players.find(p => p.id === playerId) };
+}
+
+/**
+ * Seat a player in a public lobby in their language that still needs players,
+ * or open a new one with them as host. Quick-play players come in ready, so
+ * the room counts down and starts as soon as it has enough writers.
+ */
+export function quickPlay(
+    socketId: string,
+    playerName: string,
+    language: string,
+    deviceId?: string
+): Promise<QuickPlayResult> {
+    const lang = normalizeLanguage(language);
+
+    return enqueue(lang, () => withClusterLock(`quick-play:${lang}`, async () => {
+        const candidates = findOpenRooms(await getPublicRooms(), lang, playerName, deviceId);
+
+        for (const candidate of candidates) {
+            const joined = await joinRoom(candidate.code, socketId, playerName, { deviceId });
+            // Someone may have taken the last seat since the listing was read
+            if (!joined.success || !joined.player) continue;
+
+            return { ...(await markReady(joined.room ?? candidate, joined.player.id)), created: false };
+        }
+
+        const room = await createRoom(socketId, playerName, { ...QUICK_PLAY_SETTINGS, language: lang }, { deviceId });
+        return { ...(await markReady(room, room.hostId)), created: true };
+    }));
+}
@@ -0,0 +1,99 @@
+import type { Room, RoundRecord } from '@/types/game';
+import { type RoomRepository, ROOM_TTL, MAX_HISTORY_ROUNDS, isListed } from './room-repository';
+
+/**
+ * Rooms kept in this process, for local development, demos and tests. Entries
+ * are stored as JSON, like in Redis, so callers never share objects with the
+ * store, and they expire after the same TTL. Everything is lost on restart and
+ * nothing is shared between server instances.
+ */
+
+interface Entry<T> {
+    value: T;
+    expiresAt: number;
+}
+
+const rooms = new Map<string, Entry<string>>();
+const histories = new Map<string, Entry<string[]>>();
+
+function expiry(): number {
+    return Date.now() + ROOM_TTL * 1000;
+}
+
+function read<T>(map: Map<string, Entry<T>>, key: string): T | null {
+    const entry = map.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+        map.delete(key);
+        return null;
+    }
+    return entry.value;
+}
+
+/**
+ * Drop expired entries nobody asked for again
+ */
+function sweep(): void {
+    const now = Date.now();
+    for (const map of [rooms, histories] as Map<string, Entry<unknown>>[]) {
+        for (const [key, entry] of map) {
+            if (entry.expiresAt <= now) map.delete(key);
+        }
+    }
+}
+
+export const memoryRoomRepository: RoomRepository = {
+    name: 'memory',
+
+    connect: async () => {},
+
+    getRoom: async (roomCode) => {
+        const data = read(rooms, roomCode);
+        return data ? JSON.parse(data) : null;
+    },
+
+    insertRoom: async (room) => {
+        sweep();
+        if (read(rooms, room.code)) return false;
+
+        rooms.set(room.code, { value: JSON.stringify(room), expiresAt: expiry() });
+        return true;
+    },
+
+    // Reading, changing and writing happen without yielding, so updates to a room can't interleave
+    updateRoom: async (roomCode, mutate) => {
+        const data = read(rooms, roomCode);
+        if (!data) return null;
+
+        const room: Room = JSON.parse(data);
+        const result = mutate(room);
+        const updated = JSON.stringify(room);
+
+        if (updated !== data) {
+            rooms.set(roomCode, { value: updated, expiresAt: expiry() });
+        }
+        return result;
+    },
+
+    deleteRoom: async (roomCode) => {
+        rooms.delete(roomCode);
+        histories.delete(roomCode);
+    },
+
+    getPublicRooms: async () => {
+        const listed: Room[] = [];
+        for (const code of [...rooms.keys()]) {
+            const data = read(rooms, code);
+            const room: Room | null = data ? JSON.parse(data) : null;
+            if (room && isListed(room)) listed.push(room);
+        }
+        return listed;
+    },
+
+    appendRoundHistory: async (roomCode: string, record: RoundRecord) => {
+        const records = [...(read(histories, roomCode) ?? []), JSON.stringify(record)];
+        histories.set(roomCode, { value: records.slice(-MAX_HISTORY_ROUNDS), expiresAt: expiry() });
+    },
+
+    getRoundHistory: async (roomCode) => (read(histories, roomCode) ?? []).map(entry => JSON.parse(entry))
+};
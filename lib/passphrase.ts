@@ -0,0 +1,44 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+/**
+ * Room passphrases are stored as "salt:hash" (scrypt), never in plain text, and
+ * never leave the server.
+ */
+
+export const MAX_PASSPHRASE_LENGTH = 64;
+
+const KEY_LENGTH = 32;
+
+// scrypt is slow on purpose, so it runs off the event loop
+const scryptAsync = promisify(scrypt) as (passphrase: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+/**
+ * Trim a passphrase as typed; empty means no passphrase
+ */
+export function normalizePassphrase(passphrase: unknown): string | null {
+    if (typeof passphrase !== 'string') return null;
+    const trimmed = passphrase.trim();
+    return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Hash a passphrase for storage on the room
+ */
+export async function hashPassphrase(passphrase: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const hash = (await scryptAsync(passphrase, salt, KEY_LENGTH)).toString('hex');
+    return `${salt}:${hash}`;
+}
+
+/**
+ * Check a passphrase against its stored hash
+ */
+export async function verifyPassphrase(passphrase: string, stored: string): Promise<boolean> {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(passphrase, salt, KEY_LENGTH);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,53 @@
+import type { Room, PlayerRole } from '@/types/game';
+
+/**
+ * Actions that need more than a seat in the room
+ */
+export type Permission =
+    | 'start-game' // Start the game, or a new round after a reveal
+    | 'reset-to-lobby' // Send everyone back to the lobby
+    | 'change-settings' // Change room settings (sent along with a reset to the lobby)
+    | 'edit-questions' // Write the room's custom question pack
+    | 'force-reveal' // Reveal with slots still empty
+    | 'kick-player' // Kick or ban a player, and lift bans
+    | 'transfer-host'
+    | 'assign-roles'; // Make players co-hosts or spectators
+
+const ROLE_PERMISSIONS: Record<PlayerRole, Permission[]> = {
+    host: ['start-game', 'reset-to-lobby', 'change-settings', 'edit-questions', 'force-reveal', 'kick-player', 'transfer-host', 'assign-roles'],
+    'co-host': ['start-game', 'reset-to-lobby', 'force-reveal', 'kick-player'],
+    player: [],
+    spectator: []
+};
+
+// Players can only act on (e.g. kick) players ranked below them
+const ROLE_RANK: Record<PlayerRole, number> = {
+    host: 2,
+    'co-host': 1,
+    player: 0,
+    spectator: 0
+};
+
+/**
+ * A player's role in the room, or undefined if they are not in it
+ */
+export function getRole(room: Room, playerId: string | null | undefined): PlayerRole | undefined {
+    return room.players.find(p => p.id === playerId)?.role;
+}
+
+/**
+ * Whether a player in the room may perform an action
+ */
+export function can(room: Room, playerId: string | null | undefined, permission: Permission): boolean {
+    const role = getRole(room, playerId);
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether one player outranks another, both in the room
+ */
+export function outranks(room: Room, actorId: string | null | undefined, targetId: string): boolean {
+    const actorRole = getRole(room, actorId);
+    const targetRole = getRole(room, targetId);
+    return !!actorRole && !!targetRole && ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+}
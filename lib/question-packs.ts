@@ -0,0 +1,165 @@
+import type { CustomPackInput, QuestionPack, QuestionType, Room } from '@/types/game';
+
+export const DEFAULT_PACK_ID = 'classic';
+export const CUSTOM_PACK_ID = 'custom';
+
+// Limits for host-authored packs
+export const CUSTOM_PACK_LIMITS = {
+    minSlots: 2,
+    maxSlots: 6,
+    maxLabelLength: 40,
+    maxPlaceholderLength: 60,
+    maxTemplateLength: 200
+};
+
+const SLOT_ID_PATTERN = /^[a-zA-Z][a-zA-Z0-9]{0,19}$/;
+const TEMPLATE_PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Built-in question packs. Each slot is answered blind by one player and
+ * the answers are dropped into the pack's sentence template at the reveal.
+ */
+export const QUESTION_PACKS: QuestionPack[] = [
+    {
+        id: 'classic',
+        name: 'Classic',
+        slots: [
+            { id: 'who', label: 'Who?', placeholder: 'Your boss, a pirate, grandma...', category: 'person' },
+            { id: 'withWhom', label: 'With whom?', placeholder: 'A talking dog, the neighbours...', preposition: 'with', category: 'companion' },
+            { id: 'where', label: 'Where?', placeholder: 'The moon, a karaoke bar...', preposition: 'at', category: 'place' },
+            { id: 'how', label: 'How?', placeholder: 'Very loudly, in slow motion...', lowercase: true, category: 'manner' }
+        ],
+        template: '{who} was {withWhom} {where}, {how}.'
+    },
+    {
+        id: 'headline',
+        name: 'Breaking News',
+        slots: [
+            { id: 'who', label: 'Who?', placeholder: 'A famous chef, your cat...', category: 'person' },
+            { id: 'didWhat', label: 'Did what?', placeholder: 'Ate a whole wedding cake...', lowercase: true, category: 'action' },
+            { id: 'where', label: 'Where?', placeholder: 'The town hall, a submarine...', preposition: 'at', category: 'place' }
+        ],
+        template: 'Breaking news: {who} {didWhat} {where}!'
+    },
+    {
+        id: 'excuse',
+        name: 'The Excuse',
+        slots: [
+            { id: 'who', label: 'Who?', placeholder: 'My landlord, a stray goose...', category: 'person' },
+            { id: 'didWhat', label: 'Did what?', placeholder: 'Locked me in the shed...', lowercase: true, category: 'action' },
+            { id: 'withWhom', label: 'With whom?', placeholder: 'Three clowns, my ex...', preposition: 'with', category: 'companion' },
+            { id: 'where', label: 'Where?', placeholder: 'The parking lot, IKEA...', preposition: 'at', category: 'place' },
+            { id: 'why', label: 'Why?', placeholder: 'It was a full moon...', lowercase: true, category: 'reason' }
+        ],
+        template: 'Sorry I\'m late, {who} {didWhat} {withWhom} {where} because {why}.'
+    }
+];
+
+/**
+ * Look up a built-in pack, falling back to the classic pack
+ */
+export function getQuestionPack(packId?: string): QuestionPack {
+    return QUESTION_PACKS.find(pack => pack.id === packId) ?? QUESTION_PACKS[0];
+}
+
+/**
+ * Get the pack a room is playing with
+ */
+export function getRoomPack(room: Room): QuestionPack {
+    if (room.settings.packId === CUSTOM_PACK_ID && room.customPack) {
+        return room.customPack;
+    }
+    return getQuestionPack(room.settings.packId);
+}
+
+/**
+ * Validate a host-authored pack - slot ids unique, every slot used in the
+ * template, no unknown placeholders, and everything within length limits
+ */
+export function validateCustomPack(input: CustomPackInput): {
+    isValid: boolean;
+    pack?: QuestionPack;
+    error?: string;
+} {
+    const { minSlots, maxSlots, maxLabelLength, maxPlaceholderLength, maxTemplateLength } = CUSTOM_PACK_LIMITS;
+
+    if (!input || !Array.isArray(input.slots) || typeof input.template !== 'string') {
+        return { isValid: false, error: 'Invalid custom pack' };
+    }
+
+    if (input.slots.length < minSlots || input.slots.length > maxSlots) {
+        return { isValid: false, error: `Custom pack needs ${minSlots}-${maxSlots} questions` };
+    }
+
+    const seenIds = new Set<string>();
+    const slots: QuestionPack['slots'] = [];
+
+    for (const slot of input.slots) {
+        const id = typeof slot?.id === 'string' ? slot.id.trim() : '';
+        const label = typeof slot?.label === 'string' ? slot.label.trim() : '';
+        const placeholder = typeof slot?.placeholder === 'string' ? slot.placeholder.trim() : '';
+
+        if (!SLOT_ID_PATTERN.test(id)) {
+            return { isValid: false, error: `Invalid placeholder name "${id}" (letters and digits, max 20)` };
+        }
+        // Answers are keyed by slot id, so an id like "constructor" would look answered already
+        if (id in Object.prototype) {
+            return { isValid: false, error: `Placeholder name "${id}" is reserved, please pick another` };
+        }
+        if (seenIds.has(id.toLowerCase())) {
+            return { isValid: false, error: `Placeholder {${id}} is used by more than one question` };
+        }
+        seenIds.add(id.toLowerCase());
+
+        if (!label) {
+            return { isValid: false, error: `Question for {${id}} cannot be empty` };
+        }
+        if (label.length > maxLabelLength) {
+            return { isValid: false, error: `Question for {${id}} is too long (max ${maxLabelLength} characters)` };
+        }
+        if (placeholder.length > maxPlaceholderLength) {
+            return { isValid: false, error: `Hint for {${id}} is too long (max ${maxPlaceholderLength} characters)` };
+        }
+
+        slots.push({ id, label, placeholder });
+    }
+
+    const template = input.template.trim();
+    if (!template) {
+        return { isValid: false, error: 'Sentence template cannot be empty' };
+    }
+    if (template.length > maxTemplateLength) {
+        return { isValid: false, error: `Sentence template is too long (max ${maxTemplateLength} characters)` };
+    }
+
+    const used = new Set(Array.from(template.matchAll(TEMPLATE_PLACEHOLDER), match => match[1]));
+
+    const unknown = Array.from(used).find(id => !slots.some(slot => slot.id === id));
+    if (unknown) {
+        return { isValid: false, error: `Template uses {${unknown}} but no question has that placeholder` };
+    }
+
+    const unused = slots.find(slot => !used.has(slot.id));
+    if (unused) {
+        return { isValid: false, error: `Template never uses {${unused.id}}` };
+    }
+
+    return {
+        isValid: true,
+        pack: { id: CUSTOM_PACK_ID, name: 'Custom', slots, template }
+    };
+}
+
+/**
+ * Get question label for display
+ */
+export function getQuestionLabel(pack: QuestionPack, question: QuestionType): string {
+    return pack.slots.find(slot => slot.id === question)?.label ?? question;
+}
+
+/**
+ * Name of a story group for display (A, B, C...)
+ */
+export function getStoryName(group: number): string {
+    return String.fromCharCode(65 + group);
+}
@@ -0,0 +1,40 @@
+/**
+ * Counts attempts per key over a sliding window, e.g. passphrase guesses per
+ * socket and per device. Kept in this process, like the sockets it guards.
+ */
+export interface RateLimiter {
+    /** Count an attempt against every key; false (and nothing counted) if any key is out of attempts */
+    tryAttempt(keys: string[]): boolean;
+}
+
+export function createRateLimiter(maxAttempts: number, windowMs: number): RateLimiter {
+    const attempts = new Map<string, number[]>();
+
+    const recent = (key: string, now: number) =>
+        (attempts.get(key) ?? []).filter(at => now - at < windowMs);
+
+    // Forget keys whose attempts have all aged out, so departed sockets don't pile up
+    setInterval(() => {
+        const now = Date.now();
+        for (const key of [...attempts.keys()]) {
+            const kept = recent(key, now);
+            if (kept.length > 0) {
+                attempts.set(key, kept);
+            } else {
+                attempts.delete(key);
+            }
+        }
+    }, windowMs).unref();
+
+    return {
+        tryAttempt: (keys) => {
+            const now = Date.now();
+            if (keys.some(key => recent(key, now).length >= maxAttempts)) return false;
+
+            for (const key of keys) {
+                attempts.set(key, [...recent(key, now), now]);
+            }
+            return true;
+        }
+    };
+}
@@ -0,0 +1,45 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Room } from '@/types/game';
+
+/**
+ * Reconnect tokens let a player reclaim their seat after the socket changes.
+ * A token is an HMAC over the room code, the room's creation time and the
+ * stable player id, so only the server can mint one and it cannot be replayed
+ * for another seat, another room or a later room that reuses the code.
+ */
+
+let secret: string | null = null;
+
+function getSecret(): string {
+    if (!secret) {
+        secret = process.env.RECONNECT_TOKEN_SECRET || '';
+        if (!secret) {
+            // Tokens still work, but won't survive a server restart
+            console.warn('⚠️ RECONNECT_TOKEN_SECRET not set, using a random per-process secret');
+            secret = randomBytes(32).toString('hex');
+        }
+    }
+    return secret;
+}
+
+function sign(room: Room, playerId: string): Buffer {
+    return createHmac('sha256', getSecret())
+        .update(`${room.code}:${room.createdAt}:${playerId}`)
+        .digest();
+}
+
+/**
+ * Issue the token a client must present to reconnect as this player
+ */
+export function issueReconnectToken(room: Room, playerId: string): string {
+    return sign(room, playerId).toString('base64url');
+}
+
+/**
+ * Check a token presented by a client against the seat it claims
+ */
+export function verifyReconnectToken(token: string, room: Room, playerId: string): boolean {
+    const expected = sign(room, playerId);
+    const provided = Buffer.from(token, 'base64url');
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -1,5 +1,10 @@
-import { createClient } from 'redis';
-import type { Room } from '@/types/game';
+import { createClient, WatchError } from 'redis';
+import type { Room, RoundRecord } from '@/types/game';
+import { type RoomRepository, ROOM_TTL, MAX_HISTORY_ROUNDS, isListed, retryOnConflict } from './room-repository';
+
+// Connections for isolated commands (room updates WATCH on one of their own); node-redis
+// keeps just one by default, which would make every room update wait its turn
+const ISOLATION_POOL_SIZE = 10;
 
 let redisClient: ReturnType<typeof createClient> | null = null;
 let isConnected = false;
@@ -9,7 +14,7 @@ function getRedisClient() {
     if (!redisClient) {
         const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
         console.log('🔗 Connecting to Redis:', redisUrl.replace(/:[^:@]+@/, ':****@')); // Log URL with password masked
-        redisClient = createClient({ url: redisUrl });
+        redisClient = createClient({ url: redisUrl, isolationPoolOptions: { max: ISOLATION_POOL_SIZE } });
         redisClient.on('error', (err) => console.error('Redis Client Error', err));
     }
     return redisClient;
@@ -44,17 +49,93 @@ export async function connectRedis() {
     return connectionPromise;
 }
 
+/**
+ * A connected publisher/subscriber pair for the Socket.IO adapter; a subscribed
+ * connection can't run other commands, so these are separate from the main client
+ */
+export async function createPubSubClients() {
+    const pubClient = getRedisClient().duplicate();
+    const subClient = pubClient.duplicate();
+    pubClient.on('error', (err) => console.error('Redis Pub Client Error', err));
+    subClient.on('error', (err) => console.error('Redis Sub Client Error', err));
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    return { pubClient, subClient };
+}
+
 // Room operations
 const ROOM_PREFIX = 'room:';
-const ROOM_TTL = 3600 * 4; // 4 hours
+const HISTORY_PREFIX = 'history:';
+const PUBLIC_ROOMS_KEY = 'public-rooms'; // Set of room codes listed in the room browser
 
-export async function saveRoom(room: Room): Promise<void> {
+type Multi = ReturnType<ReturnType<typeof getRedisClient>['multi']>;
+
+/**
+ * Queue a room write, keeping the public listing in step with the room
+ */
+function queueSave(multi: Multi, room: Room, data: string): Multi {
+    multi.setEx(`${ROOM_PREFIX}${room.code}`, ROOM_TTL, data);
+    if (isListed(room)) {
+        multi.sAdd(PUBLIC_ROOMS_KEY, room.code);
+    } else {
+        multi.sRem(PUBLIC_ROOMS_KEY, room.code);
+    }
+    return multi;
+}
+
+/**
+ * Optimistic locking: the room key is WATCHed while `mutate` edits the room and
+ * the write goes through MULTI, so if another write lands in between, the
+ * transaction aborts and `mutate` runs again on the fresh room.
+ */
+export async function updateRoom<T>(roomCode: string, mutate: (room: Room) => T): Promise<T | null> {
     const client = await connectRedis();
-    await client.setEx(
-        `${ROOM_PREFIX}${room.code}`,
-        ROOM_TTL,
-        JSON.stringify(room)
-    );
+    const key = `${ROOM_PREFIX}${roomCode}`;
+
+    // WATCH belongs to a connection, so each attempt runs on one of its own
+    return retryOnConflict<T>(() => client.executeIsolated(async isolated => {
+        let players = 0;
+        await isolated.watch(key);
+        try {
+            const data = await isolated.get(key);
+            if (!data) {
+                await isolated.unwatch();
+                return { outcome: 'missing' as const };
+            }
+
+            const room: Room = JSON.parse(data);
+            players = room.players.length;
+            const result = mutate(room);
+            const updated = JSON.stringify(room);
+
+            if (updated === data) {
+                await isolated.unwatch();
+            } else {
+                await queueSave(isolated.multi(), room, updated).exec();
+            }
+            return { outcome: 'committed' as const, result };
+        } catch (error) {
+            if (error instanceof WatchError) {
+                return { outcome: 'conflict' as const, players };
+            }
+            await isolated.unwatch();
+            throw error;
+        }
+    }));
+}
+
+/**
+ * Store a new room only if its code is free. Setting the key with NX reserves
+ * the code and stores the room in one step, so two rooms can't claim a code.
+ */
+export async function insertRoom(room: Room): Promise<boolean> {
+    const client = await connectRedis();
+    const stored = await client.set(`${ROOM_PREFIX}${room.code}`, JSON.stringify(room), { NX: true, EX: ROOM_TTL });
+    if (stored !== 'OK') return false;
+
+    if (isListed(room)) {
+        await client.sAdd(PUBLIC_ROOMS_KEY, room.code);
+    }
+    return true;
 }
 
 export async function getRoom(roomCode: string): Promise<Room | null> {
@@ -65,15 +146,74 @@ export async function getRoom(roomCode: string): Promise<Room | null> {
 
 export async function deleteRoom(roomCode: string): Promise<void> {
     const client = await connectRedis();
-    await client.del(`${ROOM_PREFIX}${roomCode}`);
+    await client
+        .multi()
+        .del([`${ROOM_PREFIX}${roomCode}`, `${HISTORY_PREFIX}${roomCode}`])
+        .sRem(PUBLIC_ROOMS_KEY, roomCode)
+        .exec();
 }
 
-export async function roomExists(roomCode: string): Promise<boolean> {
+/**
+ * Rooms currently listed in the room browser. Codes of rooms that expired
+ * without being deleted are dropped from the listing on the way.
+ */
+export async function getPublicRooms(): Promise<Room[]> {
     const client = await connectRedis();
-    const exists = await client.exists(`${ROOM_PREFIX}${roomCode}`);
-    return exists === 1;
+    const codes = await client.sMembers(PUBLIC_ROOMS_KEY);
+    if (codes.length === 0) return [];
+
+    const entries = await client.mGet(codes.map(code => `${ROOM_PREFIX}${code}`));
+    const rooms: Room[] = [];
+    const stale: string[] = [];
+
+    entries.forEach((entry, i) => {
+        const room: Room | null = entry ? JSON.parse(entry) : null;
+        if (room && isListed(room)) {
+            rooms.push(room);
+        } else {
+            stale.push(codes[i]);
+        }
+    });
+
+    if (stale.length > 0) {
+        await client.sRem(PUBLIC_ROOMS_KEY, stale);
+    }
+
+    return rooms;
+}
+
+// Round history operations
+export async function appendRoundHistory(roomCode: string, record: RoundRecord): Promise<void> {
+    const client = await connectRedis();
+    const key = `${HISTORY_PREFIX}${roomCode}`;
+    await client
+        .multi()
+        .rPush(key, JSON.stringify(record))
+        .lTrim(key, -MAX_HISTORY_ROUNDS, -1)
+        .expire(key, ROOM_TTL)
+        .exec();
 }
 
+export async function getRoundHistory(roomCode: string): Promise<RoundRecord[]> {
+    const client = await connectRedis();
+    const entries = await client.lRange(`${HISTORY_PREFIX}${roomCode}`, 0, -1);
+    return entries.map(entry => JSON.parse(entry));
+}
+
+export const redisRoomRepository: RoomRepository = {
+    name: 'redis',
+    connect: async () => {
+        await connectRedis();
+    },
+    getRoom,
+    insertRoom,
+    updateRoom,
+    deleteRoom,
+    getPublicRooms,
+    appendRoundHistory,
+    getRoundHistory
+};
+
 // Cleanup on shutdown
 process.on('SIGINT', async () => {
     if (isConnected && redisClient) {
@@ -1,12 +1,75 @@
-import { nanoid } from 'nanoid';
+import { randomInt } from 'crypto';
 
 /**
- * Generate a unique room code
- * Uses 6 uppercase alphanumeric characters, excluding ambiguous ones (0, O, I, 1)
+ * Room codes use uppercase letters and digits, excluding ambiguous ones (0, O, I, 1)
  */
-export function generateRoomCode(): string {
-    const alphabet = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
-    return nanoid(6).split('').map(() =>
-        alphabet[Math.floor(Math.random() * alphabet.length)]
-    ).join('');
+export const ROOM_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export const MIN_ROOM_CODE_LENGTH = 4;
+export const MAX_ROOM_CODE_LENGTH = 10;
+const DEFAULT_ROOM_CODE_LENGTH = 6;
+
+// Words a code must never spell out, also when digits stand in for letters
+const BLOCKED_WORDS = [
+    'ANAL', 'ANUS', 'ARSE', 'ASS', 'CUM', 'CUNT', 'FAG', 'FCK', 'FUCK', 'FUK',
+    'KKK', 'KUNT', 'NAZ', 'NGGA', 'NGGR', 'PUSSY', 'RAPE', 'SEX', 'SLUT',
+    'SPUNK', 'TURD', 'TWAT', 'WANK', 'XXX'
+];
+
+const LOOKALIKES: Record<string, string> = { '3': 'E', '4': 'A', '5': 'S', '6': 'G', '7': 'T', '8': 'B', '9': 'G' };
+
+let codeLength: number | null = null;
+
+/**
+ * Length of generated codes, from ROOM_CODE_LENGTH (default 6)
+ */
+export function getRoomCodeLength(): number {
+    if (codeLength === null) {
+        const configured = parseInt(process.env.ROOM_CODE_LENGTH || '', 10);
+        codeLength = Number.isFinite(configured)
+            ? Math.min(MAX_ROOM_CODE_LENGTH, Math.max(MIN_ROOM_CODE_LENGTH, configured))
+            : DEFAULT_ROOM_CODE_LENGTH;
+    }
+    return codeLength;
+}
+
+/**
+ * Whether a code spells out a blocked word anywhere in it
+ */
+export function isBlockedCode(code: string): boolean {
+    const plain = code.replace(/[3-9]/g, digit => LOOKALIKES[digit]);
+    return BLOCKED_WORDS.some(word => code.includes(word) || plain.includes(word));
+}
+
+/**
+ * Check a host-chosen room code; returns the code to use, or an error
+ */
+export function validateVanityCode(input: string): { code?: string; error?: string } {
+    const code = input.trim().toUpperCase();
+
+    if (code.length < MIN_ROOM_CODE_LENGTH || code.length > MAX_ROOM_CODE_LENGTH) {
+        return { error: `Room code must be ${MIN_ROOM_CODE_LENGTH}-${MAX_ROOM_CODE_LENGTH} characters` };
+    }
+
+    if (![...code].every(char => ROOM_CODE_ALPHABET.includes(char))) {
+        return { error: 'Room code can only use letters and digits, except 0, O, 1 and I' };
+    }
+
+    if (isBlockedCode(code)) {
+        return { error: 'That room code is not allowed' };
+    }
+
+    return { code };
+}
+
+/**
+ * Generate a random room code from a CSPRNG, skipping codes that spell blocked words.
+ * Uniqueness is not checked here: codes are reserved atomically when the room is stored.
+ */
+export function generateRoomCode(length: number = getRoomCodeLength()): string {
+    let code: string;
+    do {
+        code = Array.from({ length }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+    } while (isBlockedCode(code));
+    return code;
 }
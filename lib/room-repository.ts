@@ -0,0 +1,80 @@
+import type { Room, RoundRecord } from '@/types/game';
+
+/**
+ * Where rooms and their round history live. Implementations: Redis
+ * (redis-client.ts) and in-memory (memory-room-repository.ts); lib/rooms.ts
+ * picks one from the config.
+ */
+export interface RoomRepository {
+    readonly name: string;
+    connect(): Promise<void>;
+
+    getRoom(roomCode: string): Promise<Room | null>;
+    /** Store a new room only if its code is free; false if it is taken */
+    insertRoom(room: Room): Promise<boolean>;
+    /**
+     * Change a room without losing concurrent changes to it. `mutate` edits the
+     * room in place and may run more than once, so it must not have side effects.
+     * Nothing is written if it leaves the room as it was. Returns what `mutate`
+     * returned, or null if the room doesn't exist.
+     */
+    updateRoom<T>(roomCode: string, mutate: (room: Room) => T): Promise<T | null>;
+    deleteRoom(roomCode: string): Promise<void>;
+    /** Rooms currently listed in the room browser */
+    getPublicRooms(): Promise<Room[]>;
+
+    appendRoundHistory(roomCode: string, record: RoundRecord): Promise<void>;
+    /** Oldest first */
+    getRoundHistory(roomCode: string): Promise<RoundRecord[]>;
+}
+
+export const ROOM_TTL = 3600 * 4; // 4 hours, in seconds
+export const MAX_HISTORY_ROUNDS = 50;
+
+/**
+ * Public rooms are listed while they are lobbies with a free seat
+ */
+export function isListed(room: Room): boolean {
+    return room.settings.visibility === 'public' &&
+        room.gameState.phase === 'lobby' &&
+        room.players.length < room.settings.maxPlayers;
+}
+
+/**
+ * One try at an optimistic room update: the room is gone, the change was
+ * committed, or another write got in first. A conflict reports the room's
+ * player count, which sets how long retrying is worth it.
+ */
+export type UpdateAttempt<T> = () => Promise<
+    | { outcome: 'missing' }
+    | { outcome: 'committed'; result: T }
+    | { outcome: 'conflict'; players: number }
+>;
+
+const MIN_UPDATE_ATTEMPTS = 5;
+const UPDATE_ATTEMPTS_PER_PLAYER = 2;
+const BASE_BACKOFF_MS = 5;
+const MAX_BACKOFF_MS = 200;
+
+/**
+ * Repeat an optimistic update until it commits. Each conflict lets only one
+ * writer through, so when the whole room acts at once (everyone auto-submits at
+ * the deadline) the last writer needs about as many tries as there are players:
+ * the cap grows with the room, and a random, growing pause between tries spreads
+ * the writers out instead of having them collide again.
+ */
+export async function retryOnConflict<T>(attempt: UpdateAttempt<T>): Promise<T | null> {
+    for (let tries = 1; ; tries++) {
+        const result = await attempt();
+        if (result.outcome === 'missing') return null;
+        if (result.outcome === 'committed') return result.result;
+
+        const maxAttempts = Math.max(MIN_UPDATE_ATTEMPTS, result.players * UPDATE_ATTEMPTS_PER_PLAYER);
+        if (tries >= maxAttempts) {
+            throw new Error('The room is busy, please try again');
+        }
+
+        const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (tries - 1));
+        await new Promise(resolve => setTimeout(resolve, Math.random() * backoff));
+    }
+}
@@ -0,0 +1,84 @@
+import type { Room, Player } from '@/types/game';
+
+/**
+ * Strip server-only fields from a player before it leaves the server
+ */
+export function toPublicPlayer(player: Player): Player {
+    return { ...player, socketId: undefined, deviceId: undefined };
+}
+
+/**
+ * Strip device ids from the ban list
+ */
+function toPublicBans(bans: Room['bans']): Room['bans'] {
+    return bans?.map(ban => ({ ...ban, deviceId: undefined }));
+}
+
+/**
+ * Build the copy of a room that a single player is allowed to see.
+ * Socket ids, device ids, the passphrase hash and the assignment seed never
+ * leave the server. While answers are being written, other players' answers,
+ * slot assignments and answer authorship stay hidden too;
+ * while votes are open, other players' votes stay hidden (hasVoted shows
+ * who is done). The reveal releases everything else.
+ */
+export function projectRoomForPlayer(room: Room, playerId: string): Room {
+    const gameState: Room['gameState'] = { ...room.gameState, seed: undefined };
+    const publicRoom: Room = { ...room, bans: toPublicBans(room.bans), passphraseHash: undefined };
+
+    if (gameState.phase === 'voting') {
+        const votes: Room['gameState']['votes'] = {};
+        if (room.gameState.votes[playerId]) {
+            votes[playerId] = room.gameState.votes[playerId];
+        }
+
+        return {
+            ...publicRoom,
+            players: room.players.map(toPublicPlayer),
+            gameState: { ...gameState, votes }
+        };
+    }
+
+    if (gameState.phase !== 'playing') {
+        return { ...publicRoom, players: room.players.map(toPublicPlayer), gameState };
+    }
+
+    // In chain mode the open slot is public, so who is writing it right now is too
+    const openSlot = room.settings.chainMode ? room.gameState.questionOrder[room.gameState.currentTurnIndex] : undefined;
+
+    const players: Player[] = room.players.map(player => {
+        const isWriting = !!player.assignedQuestion;
+        const isTurn = !!openSlot && player.assignedQuestion === openSlot && !player.hasAnswered;
+
+        if (player.id === playerId) {
+            return { ...toPublicPlayer(player), isWriting, isTurn };
+        }
+
+        return {
+            ...toPublicPlayer(player),
+            assignedQuestion: undefined,
+            lastSlot: undefined,
+            groupIndex: undefined,
+            isWriting,
+            isTurn
+        };
+    });
+
+    // Only the recipient's own answer survives until the reveal
+    const me = room.players.find(p => p.id === playerId);
+    const answers: Room['gameState']['answers'] = room.gameState.answers.map(() => ({}));
+    const myGroup = me?.groupIndex ?? 0;
+    const myAnswer = me?.assignedQuestion ? room.gameState.answers[myGroup]?.[me.assignedQuestion] : undefined;
+    if (me?.assignedQuestion && myAnswer) {
+        answers[myGroup][me.assignedQuestion] = myAnswer;
+    }
+
+    return {
+        ...publicRoom,
+        players,
+        gameState: {
+            ...gameState,
+            answers
+        }
+    };
+}
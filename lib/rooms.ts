@@ -0,0 +1,76 @@
+import type { Room, RoundRecord } from '@/types/game';
+import type { RoomRepository } from './room-repository';
+import { redisRoomRepository } from './redis-client';
+import { memoryRoomRepository } from './memory-room-repository';
+
+/**
+ * The room repository the server runs on, chosen by ROOM_STORE ('redis' or
+ * 'memory'). Unset, Redis is used when REDIS_URL is configured and memory
+ * otherwise, so the game runs locally without any external services.
+ */
+
+let repository: RoomRepository | null = null;
+
+export function getRoomRepository(): RoomRepository {
+    if (!repository) {
+        const configured = process.env.ROOM_STORE?.trim().toLowerCase();
+
+        if (configured === 'redis' || configured === 'memory') {
+            repository = configured === 'redis' ? redisRoomRepository : memoryRoomRepository;
+        } else {
+            if (configured) {
+                console.warn(`⚠️ Unknown ROOM_STORE "${configured}", falling back to the default`);
+            }
+            repository = process.env.REDIS_URL ? redisRoomRepository : memoryRoomRepository;
+        }
+
+        if (repository === memoryRoomRepository) {
+            console.warn('⚠️ Keeping rooms in memory: they are lost on restart and not shared between servers');
+        }
+    }
+    return repository;
+}
+
+/**
+ * Run on the given repository instead of the configured one (for tests)
+ */
+export function useRoomRepository(override: RoomRepository): void {
+    repository = override;
+}
+
+/**
+ * Connect the chosen repository; call once before serving players
+ */
+export async function connectRooms(): Promise<RoomRepository> {
+    const rooms = getRoomRepository();
+    await rooms.connect();
+    return rooms;
+}
+
+export function getRoom(roomCode: string): Promise<Room | null> {
+    return getRoomRepository().getRoom(roomCode);
+}
+
+export function insertRoom(room: Room): Promise<boolean> {
+    return getRoomRepository().insertRoom(room);
+}
+
+export function updateRoom<T>(roomCode: string, mutate: (room: Room) => T): Promise<T | null> {
+    return getRoomRepository().updateRoom(roomCode, mutate);
+}
+
+export function deleteRoom(roomCode: string): Promise<void> {
+    return getRoomRepository().deleteRoom(roomCode);
+}
+
+export function getPublicRooms(): Promise<Room[]> {
+    return getRoomRepository().getPublicRooms();
+}
+
+export function appendRoundHistory(roomCode: string, record: RoundRecord): Promise<void> {
+    return getRoomRepository().appendRoundHistory(roomCode, record);
+}
+
+export function getRoundHistory(roomCode: string): Promise<RoundRecord[]> {
+    return getRoomRepository().getRoundHistory(roomCode);
+}
@@ -0,0 +1,125 @@
+import type { QuestionType } from '@/types/game';
+
+/**
+ * What the rotation needs to know about a player
+ */
+export interface RotationPlayer {
+    id: string;
+    roundsPlayed: number; // Rounds the player has written a slot in
+    lastSlot?: QuestionType; // Slot the player wrote most recently
+}
+
+export interface SlotAssignment {
+    playerId: string;
+    question: QuestionType;
+    groupIndex: number;
+}
+
+/**
+ * Pick a random 32-bit seed for a room
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Derive a round's seed from the room seed, so every round gets its own sequence
+ */
+export function getRoundSeed(seed: number, round: number): number {
+    return (seed ^ Math.imul(round, 0x9e3779b9)) >>> 0;
+}
+
+/**
+ * Small seedable PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createRng(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+function shuffle<T>(items: T[], rng: () => number): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+/**
+ * Give each player in a group a different slot, never the slot they wrote last
+ * time when that can be avoided
+ */
+function assignGroupSlots(group: RotationPlayer[], questions: QuestionType[], rng: () => number): Map<string, QuestionType> {
+    const order = shuffle(questions, rng);
+    const result = new Map<string, QuestionType>();
+    const used = new Set<QuestionType>();
+
+    // Groups are at most a pack's size, so a plain backtracking search is cheap
+    const place = (index: number): boolean => {
+        if (index === group.length) return true;
+
+        const player = group[index];
+        for (const question of order) {
+            if (used.has(question) || question === player.lastSlot) continue;
+
+            used.add(question);
+            result.set(player.id, question);
+            if (place(index + 1)) return true;
+            used.delete(question);
+            result.delete(player.id);
+        }
+        return false;
+    };
+
+    if (!place(0)) {
+        // No way around a repeat - hand the slots out in shuffled order
+        result.clear();
+        group.forEach((player, i) => result.set(player.id, order[i]));
+    }
+
+    return result;
+}
+
+/**
+ * Plan one round: the players who have written the fewest rounds play (ties
+ * broken at random), they are split into groups of one writer per slot, and
+ * nobody repeats the slot they last wrote if it can be helped.
+ *
+ * Pure and reproducible: the same players, questions, group count and seed
+ * always give the same plan, whatever order the players are passed in.
+ */
+export function planRound(
+    players: RotationPlayer[],
+    questions: QuestionType[],
+    groupCount: number,
+    seed: number
+): SlotAssignment[] {
+    const rng = createRng(seed);
+
+    // Sort first so the plan depends on who is playing, not on the order they joined in
+    const byId = [...players].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    const candidates = shuffle(byId, rng).sort((a, b) => a.roundsPlayed - b.roundsPlayed);
+
+    const writers = candidates.slice(0, groupCount * questions.length);
+    const seated = shuffle(writers, rng);
+
+    const assignments: SlotAssignment[] = [];
+    for (let groupIndex = 0; groupIndex < groupCount; groupIndex++) {
+        const group = seated.slice(groupIndex * questions.length, (groupIndex + 1) * questions.length);
+        for (const [playerId, question] of assignGroupSlots(group, questions, rng)) {
+            assignments.push({ playerId, question, groupIndex });
+        }
+    }
+
+    return assignments;
+}
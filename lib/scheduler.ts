@@ -0,0 +1,141 @@
+import { connectRedis } from './redis-client';
+import { isClustered } from './cluster';
+
+/**
+ * Deadlines the server acts on: answer and vote timeouts, the ready-check
+ * countdown and the end of a dropped player's grace period. With Redis they
+ * are shared, so whichever server instance is up when a job falls due runs it,
+ * and a player who reconnects to another instance can still cancel theirs.
+ * Every job re-checks the room before acting, so running a stale one is harmless.
+ */
+export type Job =
+    | { type: 'expire-round'; roomCode: string; round: number; turn: number }
+    | { type: 'close-voting'; roomCode: string; round: number }
+    | { type: 'auto-start'; roomCode: string; autoStartAt: number }
+    | { type: 'remove-player'; roomCode: string; playerId: string; socketId: string; playerName: string };
+
+export interface Scheduler {
+    /** Run a job once `dueAt` has passed, replacing any job already scheduled under the same key */
+    schedule(key: string, job: Job, dueAt: number): Promise<void>;
+    /** Drop a scheduled job; true if there was one */
+    cancel(key: string): Promise<boolean>;
+    /** Start running due jobs */
+    start(run: (job: Job) => Promise<void>): void;
+}
+
+/**
+ * Timers in this process, for a single server instance
+ */
+function createMemoryScheduler(): Scheduler {
+    const timers = new Map<string, NodeJS.Timeout>();
+    let runJob: ((job: Job) => Promise<void>) | null = null;
+
+    // Synchronous, so a cancel always lands in the order it was called
+    const clear = (key: string) => {
+        const timer = timers.get(key);
+        if (!timer) return false;
+
+        clearTimeout(timer);
+        timers.delete(key);
+        return true;
+    };
+
+    // Timers can fire a little early, and jobs re-check the deadline against the
+    // clock, so a job that comes up before its due time waits out the rest
+    const arm = (key: string, job: Job, dueAt: number) => {
+        timers.set(key, setTimeout(() => {
+            if (Date.now() < dueAt) {
+                arm(key, job, dueAt);
+                return;
+            }
+            timers.delete(key);
+            runJob?.(job);
+        }, Math.max(0, dueAt - Date.now())));
+    };
+
+    return {
+        schedule: async (key, job, dueAt) => {
+            clear(key);
+            arm(key, job, dueAt);
+        },
+        cancel: async (key) => clear(key),
+        start: (run) => {
+            runJob = run;
+        }
+    };
+}
+
+const JOBS_KEY = 'jobs'; // Sorted set of job keys, scored by due time
+const JOB_DATA_KEY = 'job-data'; // Hash of job key -> job
+const POLL_INTERVAL_MS = 250;
+const MAX_JOBS_PER_POLL = 50;
+
+// Take the due jobs off the schedule in one step, so each one is claimed by a single instance
+const CLAIM_DUE_JOBS = `
+local keys = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+local jobs = {}
+for _, key in ipairs(keys) do
+    redis.call('ZREM', KEYS[1], key)
+    local job = redis.call('HGET', KEYS[2], key)
+    redis.call('HDEL', KEYS[2], key)
+    if job then table.insert(jobs, job) end
+end
+return jobs
+`;
+
+/**
+ * Jobs kept in Redis and polled by every server instance
+ */
+function createRedisScheduler(): Scheduler {
+    return {
+        schedule: async (key, job, dueAt) => {
+            const client = await connectRedis();
+            await client
+                .multi()
+                .zAdd(JOBS_KEY, { score: dueAt, value: key })
+                .hSet(JOB_DATA_KEY, key, JSON.stringify(job))
+                .exec();
+        },
+        cancel: async (key) => {
+            const client = await connectRedis();
+            const [removed] = await client
+                .multi()
+                .zRem(JOBS_KEY, key)
+                .hDel(JOB_DATA_KEY, key)
+                .exec();
+            return Number(removed) > 0;
+        },
+        start: (run) => {
+            let polling = false;
+            setInterval(async () => {
+                // Skip a tick rather than pile up polls while jobs are still running
+                if (polling) return;
+                polling = true;
+                try {
+                    const client = await connectRedis();
+                    const jobs = await client.eval(CLAIM_DUE_JOBS, {
+                        keys: [JOBS_KEY, JOB_DATA_KEY],
+                        arguments: [String(Date.now()), String(MAX_JOBS_PER_POLL)]
+                    }) as string[];
+                    await Promise.all(jobs.map(job => run(JSON.parse(job))));
+                } catch (error) {
+                    console.error('Error running scheduled jobs:', error);
+                } finally {
+                    polling = false;
+                }
+            }, POLL_INTERVAL_MS);
+        }
+    };
+}
+
+let scheduler: Scheduler | null = null;
+
+/**
+ * Shared through Redis when clustered, local timers otherwise
+ */
+export function getScheduler(): Scheduler {
+    if (!scheduler) {
+        scheduler = isClustered() ? createRedisScheduler() : createMemoryScheduler();
+    }
+    return scheduler;
+}
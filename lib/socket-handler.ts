@@ -1,196 +1,555 @@
 import type { Socket } from 'socket.io';
-import type { ServerToClientEvents, ClientToServerEvents } from '@/types/game';
+import type { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData, Room } from '@/types/game';
 import {
     createRoom,
     joinRoom,
+    reconnectPlayer,
+    markReconnecting,
+    setAway,
     removePlayer,
+    expireGracePeriod,
+    forceReveal,
     startGame,
     submitAnswer,
-    generateReveal,
+    skipAnswer,
     startNewRound,
-    resetToLobby
+    resetToLobby,
+    expireRound,
+    setCustomPack,
+    castVote,
+    closeVoting,
+    toggleReady,
+    autoStartGame,
+    transferHost,
+    setPlayerRole,
+    coverForAbsentHost,
+    isBanned,
+    kickPlayer,
+    liftBan,
+    setPassphrase,
+    listPublicRooms,
+    isPlayersTurn,
+    getPreviousAnswer,
+    DEADLINE_GRACE_MS
 } from './game-engine';
-import { getRoom, deleteRoom, saveRoom } from './redis-client';
+import { quickPlay } from './matchmaking';
+import { projectRoomForPlayer, toPublicPlayer } from './room-view';
+import { can } from './permissions';
+import { issueReconnectToken, verifyReconnectToken } from './reconnect-token';
+import { getRoom, deleteRoom, getRoundHistory } from './rooms';
+import { getScheduler, type Job } from './scheduler';
+import { isClustered } from './cluster';
+import { normalizePassphrase } from './passphrase';
+import { createRateLimiter } from './rate-limit';
+
+type SocketType = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// Store socket-to-seat mapping (socket id -> room code and stable player id). A socket
+// lives on one server instance, so this stays local; rooms and deadlines are shared.
+const socketPlayers = new Map<string, { roomCode: string; playerId: string }>();
 
-type SocketType = Socket<ClientToServerEvents, ServerToClientEvents>;
+// Grace period before removing disconnected players (30 seconds)
+const DISCONNECT_GRACE_PERIOD = 30000;
 
-// Store socket-to-room mapping
-const socketRooms = new Map<string, string>();
+// Passphrase guesses allowed per socket and per device each minute
+const passphraseAttempts = createRateLimiter(5, 60000);
 
-// Store pending disconnections (for grace period)
-const pendingDisconnects = new Map<string, { roomCode: string; playerId: string; timeout: NodeJS.Timeout }>();
+// Each room has one answer, vote or ready-check deadline at a time
+function roundJobKey(roomCode: string) {
+    return `round:${roomCode}`;
+}
 
-// Grace period before removing disconnected players (30 seconds)
-const DISCONNECT_GRACE_PERIOD = 30000;
+// Pending removals (for the grace period), keyed by room code and stable player id
+function disconnectJobKey(roomCode: string, playerId: string) {
+    return `disconnect:${roomCode}:${playerId}`;
+}
+
+/**
+ * Arm a deadline without holding up the caller; it replaces the room's previous one
+ */
+function armRoundTimer(roomCode: string, job: Job, dueAt: number) {
+    getScheduler().schedule(roundJobKey(roomCode), job, dueAt).catch(error => {
+        console.error('Error scheduling deadline:', error);
+    });
+}
+
+function clearRoundTimer(roomCode: string) {
+    getScheduler().cancel(roundJobKey(roomCode)).catch(error => {
+        console.error('Error clearing deadline:', error);
+    });
+}
+
+function cancelPendingDisconnect(roomCode: string, playerId: string): Promise<boolean> {
+    return getScheduler().cancel(disconnectJobKey(roomCode, playerId));
+}
 
 export function setupSocketHandlers(io: any) {
+    // Verify reconnect tokens at handshake time; only a verified token can claim an existing seat
+    io.use(async (socket: SocketType, next: (err?: Error) => void) => {
+        const { roomCode, playerId, reconnectToken, deviceId } = socket.handshake.auth ?? {};
+
+        if (typeof deviceId === 'string' && deviceId.length > 0 && deviceId.length <= 64) {
+            socket.data.deviceId = deviceId;
+        }
+
+        if (typeof roomCode === 'string' && typeof playerId === 'string' && typeof reconnectToken === 'string') {
+            try {
+                // Tokens are bound to the room they were issued in, not just its code
+                const room = await getRoom(roomCode);
+                if (room && verifyReconnectToken(reconnectToken, room, playerId)) {
+                    socket.data.roomCode = roomCode;
+                    socket.data.playerId = playerId;
+                } else {
+                    console.warn(`🚫 Invalid reconnect token for ${playerId} in room ${roomCode}`);
+                }
+            } catch (error) {
+                console.error('Error verifying reconnect token:', error);
+            }
+        }
+
+        next();
+    });
+
+    // A player kicked on another instance no longer holds the seat their socket here had
+    io.on('release-seat', (socketId: string) => {
+        socketPlayers.delete(socketId);
+    });
+
+    /**
+     * Send every player their own view of the room (never the raw room)
+     */
+    function emitRoomUpdate(room: Room) {
+        room.players.forEach(player => {
+            if (player.socketId) {
+                io.to(player.socketId).emit('room-updated', projectRoomForPlayer(room, player.id));
+            }
+        });
+    }
+
+    /**
+     * Broadcast the reveal for a room whose answers are all in
+     */
+    function revealRound(room: Room) {
+        clearRoundTimer(room.code);
+
+        // The engine stored the canonical story on the room when it entered the reveal
+        const revealData = room.gameState.reveal;
+        if (!revealData) return;
+
+        console.log(`🎉 Revealing in room ${room.code}: ${revealData.stories.map(story => story.sentence).join(' | ')}`);
+
+        // Dramatic pause before reveal
+        setTimeout(() => {
+            io.to(room.code).emit('reveal', revealData);
+        }, 1000);
+
+        if (room.gameState.phase === 'voting' && room.gameState.voteDeadline) {
+            armVoteTimer(room.code, room.gameState.currentRound, room.gameState.voteDeadline);
+        }
+    }
+
+    /**
+     * Count the votes when voting time runs out
+     */
+    function armVoteTimer(roomCode: string, round: number, voteDeadline: number) {
+        armRoundTimer(roomCode, { type: 'close-voting', roomCode, round }, voteDeadline);
+    }
+
+    async function onVoteDeadline(roomCode: string, round: number) {
+        const closedRoom = await closeVoting(roomCode, round);
+        if (!closedRoom) return;
+
+        console.log(`🗳️ Voting closed for round ${round} in room ${roomCode}`);
+        emitRoomUpdate(closedRoom);
+    }
+
+    /**
+     * Arm the lobby's ready-check countdown, or disarm it once it has been called off
+     */
+    function syncAutoStartTimer(room: Room) {
+        if (room.gameState.phase !== 'lobby') return;
+
+        const { autoStartAt } = room.gameState;
+        if (!autoStartAt) {
+            clearRoundTimer(room.code);
+            return;
+        }
+
+        armRoundTimer(room.code, { type: 'auto-start', roomCode: room.code, autoStartAt }, autoStartAt);
+    }
+
+    async function onAutoStart(roomCode: string, autoStartAt: number) {
+        const startedRoom = await autoStartGame(roomCode, autoStartAt);
+        if (!startedRoom) return;
+
+        console.log(`🚦 Everyone ready, game auto-started in room ${roomCode}`);
+        beginRound(startedRoom);
+    }
+
+    /**
+     * Announce a freshly started round and arm its server-side deadline
+     */
+    function beginRound(room: Room) {
+        const deadline = room.gameState.deadline!;
+
+        // Notify each player with their own view, then the writers of their question
+        room.players.forEach(player => {
+            if (!player.socketId) return;
+            io.to(player.socketId).emit('game-started', projectRoomForPlayer(room, player.id), deadline);
+        });
+
+        announceTurn(room);
+    }
+
+    /**
+     * Send 'your-turn' to every writer whose slot is open (all of them, or in chain
+     * mode only the current turn's writers) and arm the deadline for it
+     */
+    function announceTurn(room: Room) {
+        const deadline = room.gameState.deadline!;
+
+        room.players.forEach(player => {
+            if (!player.socketId || !player.assignedQuestion || player.hasAnswered) return;
+            if (!isPlayersTurn(room, player)) return;
+            io.to(player.socketId).emit('your-turn', player.assignedQuestion, deadline, getPreviousAnswer(room, player));
+        });
+
+        const { currentRound, currentTurnIndex } = room.gameState;
+        // Answers sent right at the deadline are still accepted, so fill the slots only after that
+        armRoundTimer(room.code, { type: 'expire-round', roomCode: room.code, round: currentRound, turn: currentTurnIndex }, deadline + DEADLINE_GRACE_MS);
+    }
+
+    async function onTurnDeadline(roomCode: string, round: number, turn: number) {
+        const expiredRoom = await expireRound(roomCode, round, turn);
+        if (!expiredRoom) return;
+
+        console.log(`⏰ Round ${round} timed out in room ${roomCode}`);
+        emitRoomUpdate(expiredRoom);
+
+        // Chain mode keeps playing until the last slot's turn is over
+        if (expiredRoom.gameState.phase === 'playing') {
+            announceTurn(expiredRoom);
+        } else {
+            revealRound(expiredRoom);
+        }
+    }
+
+    /**
+     * Tell the room a player is gone and hand any slot they left to its new
+     * writer, or delete the room if nobody is left
+     */
+    async function handlePlayerRemoved(
+        roomCode: string,
+        playerId: string,
+        result: Awaited<ReturnType<typeof removePlayer>>
+    ) {
+        if (!result) {
+            // Room is empty, delete it
+            clearRoundTimer(roomCode);
+            await deleteRoom(roomCode);
+            console.log(`🗑️ Room ${roomCode} deleted (empty)`);
+            return;
+        }
+
+        io.to(roomCode).emit('player-left', playerId);
+        if (result.newHost) {
+            console.log(`👑 ${result.newHost.name} is now host of room ${roomCode}`);
+            io.to(roomCode).emit('host-changed', result.newHost.id, 'left');
+        }
+        emitRoomUpdate(result.room);
+        syncAutoStartTimer(result.room);
+
+        if (result.replacement) {
+            console.log(`🔁 ${result.replacement.name} takes over a slot in room ${roomCode}`);
+            // Re-announces the open turn (and re-arms the timer, in case the deadline was topped up)
+            announceTurn(result.room);
+        }
+    }
+
+    /**
+     * Remove a player whose grace period ran out, unless they came back on a new socket
+     */
+    async function onGracePeriodExpired(roomCode: string, playerId: string, socketId: string, playerName: string) {
+        console.log(`⏰ Grace period expired for ${playerName} in room ${roomCode}`);
+
+        const expiry = await expireGracePeriod(roomCode, playerId, socketId);
+        if (expiry.removed) {
+            await handlePlayerRemoved(roomCode, playerId, expiry.removal);
+        }
+    }
+
+    /**
+     * Act on a deadline that fell due; it may have been armed on another instance.
+     * The engine ignores deadlines the room has moved past.
+     */
+    async function runJob(job: Job) {
+        try {
+            switch (job.type) {
+                case 'close-voting':
+                    return await onVoteDeadline(job.roomCode, job.round);
+                case 'auto-start':
+                    return await onAutoStart(job.roomCode, job.autoStartAt);
+                case 'expire-round':
+                    return await onTurnDeadline(job.roomCode, job.round, job.turn);
+                case 'remove-player':
+                    return await onGracePeriodExpired(job.roomCode, job.playerId, job.socketId, job.playerName);
+            }
+        } catch (error) {
+            console.error(`Error running ${job.type} job:`, error);
+        }
+    }
+
+    getScheduler().start(runJob);
+
     io.on('connection', (socket: SocketType) => {
         console.log(`🔌 Client connected: ${socket.id}`);
 
         // CREATE ROOM
-        socket.on('create-room', async (playerName, settings, callback) => {
+        socket.on('create-room', async (playerName, settings, options, callback) => {
             try {
-                const room = await createRoom(socket.id, playerName, settings);
+                const room = await createRoom(socket.id, playerName, settings, {
+                    deviceId: socket.data.deviceId,
+                    passphrase: options?.passphrase,
+                    code: options?.code
+                });
 
                 // Join socket room
                 await socket.join(room.code);
-                socketRooms.set(socket.id, room.code);
+                socketPlayers.set(socket.id, { roomCode: room.code, playerId: room.hostId });
 
                 console.log(`🎮 Room created: ${room.code} by ${playerName}`);
 
                 // Send room data directly in callback to ensure client receives it immediately
-                callback(room.code, room);
+                callback(room.code, projectRoomForPlayer(room, room.hostId), {
+                    playerId: room.hostId,
+                    reconnectToken: issueReconnectToken(room, room.hostId)
+                });
 
                 // Also notify room (for any other listeners)
-                io.to(room.code).emit('room-updated', room);
-            } catch (error) {
+                emitRoomUpdate(room);
+            } catch (error: any) {
                 console.error('Error creating room:', error);
-                socket.emit('error', 'Failed to create room');
+                callback('', undefined, undefined, error.message || 'Failed to create room');
             }
         });
 
         // JOIN ROOM
-        socket.on('join-room', async (roomCode, playerName, callback) => {
+        socket.on('join-room', async (roomCode, playerName, passphrase, callback) => {
             try {
-                const result = await joinRoom(roomCode.toUpperCase(), socket.id, playerName);
+                const code = roomCode.toUpperCase();
+
+                if (normalizePassphrase(passphrase)) {
+                    const keys = [`socket:${socket.id}`];
+                    if (socket.data.deviceId) keys.push(`device:${socket.data.deviceId}`);
+                    if (!passphraseAttempts.tryAttempt(keys)) {
+                        callback(false, 'too-many-attempts');
+                        return;
+                    }
+                }
 
-                if (!result.success || !result.room) {
-                    callback(false, result.error);
+                const result = await joinRoom(code, socket.id, playerName, { deviceId: socket.data.deviceId, passphrase });
+
+                if (!result.success || !result.room || !result.player) {
+                    callback(false, result.error ?? 'failed');
                     return;
                 }
 
                 // Join socket room
-                await socket.join(roomCode.toUpperCase());
-                socketRooms.set(socket.id, roomCode.toUpperCase());
+                await socket.join(code);
+                socketPlayers.set(socket.id, { roomCode: code, playerId: result.player.id });
 
-                console.log(`👤 ${playerName} joined room ${roomCode}`);
-                callback(true);
+                console.log(`👤 ${playerName} joined room ${roomCode}${result.player.isPending ? ' (next round)' : ''}`);
+                callback(true, undefined, {
+                    playerId: result.player.id,
+                    reconnectToken: issueReconnectToken(result.room, result.player.id)
+                }, projectRoomForPlayer(result.room, result.player.id));
 
                 // Notify all players in room
-                const player = result.room.players.find(p => p.id === socket.id);
-                if (player) {
-                    io.to(roomCode.toUpperCase()).emit('player-joined', player);
-                }
-                io.to(roomCode.toUpperCase()).emit('room-updated', result.room);
+                io.to(code).emit('player-joined', toPublicPlayer(result.player));
+                emitRoomUpdate(result.room);
+                syncAutoStartTimer(result.room);
             } catch (error) {
                 console.error('Error joining room:', error);
-                callback(false, 'Failed to join room');
+                callback(false, 'failed');
+            }
+        });
+
+        // QUICK PLAY
+        socket.on('quick-play', async (playerName, language, callback) => {
+            try {
+                const result = await quickPlay(socket.id, playerName, language, socket.data.deviceId);
+
+                if (!result.success || !result.room || !result.player) {
+                    callback(false, result.error ?? 'failed');
+                    return;
+                }
+
+                const code = result.room.code;
+                await socket.join(code);
+                socketPlayers.set(socket.id, { roomCode: code, playerId: result.player.id });
+
+                console.log(`⚡ ${playerName} ${result.created ? 'opened' : 'was matched into'} room ${code} (${result.room.settings.language})`);
+                callback(true, undefined, {
+                    playerId: result.player.id,
+                    reconnectToken: issueReconnectToken(result.room, result.player.id)
+                }, projectRoomForPlayer(result.room, result.player.id));
+
+                if (!result.created) {
+                    io.to(code).emit('player-joined', toPublicPlayer(result.player));
+                }
+                emitRoomUpdate(result.room);
+                syncAutoStartTimer(result.room);
+            } catch (error) {
+                console.error('Error in quick play:', error);
+                callback(false, 'failed');
             }
         });
 
         // REJOIN ROOM (for reconnection after tab switch/disconnect)
         socket.on('rejoin-room', async (roomCode, playerId, playerName, callback) => {
             try {
-                const room = await getRoom(roomCode.toUpperCase());
+                const code = roomCode.toUpperCase();
 
-                if (!room) {
-                    callback(false, undefined, 'Room not found');
+                // The seat must match the one proven by the reconnect token at handshake
+                if (socket.data.roomCode !== code || socket.data.playerId !== playerId) {
+                    callback(false, undefined, 'invalid-session');
                     return;
                 }
 
-                // Check if there's a pending disconnect for this player
-                const pendingKey = `${roomCode.toUpperCase()}-${playerId}`;
-                const pending = pendingDisconnects.get(pendingKey);
-                if (pending) {
-                    // Cancel the pending removal
-                    clearTimeout(pending.timeout);
-                    pendingDisconnects.delete(pendingKey);
-                    console.log(`🔄 Cancelled pending disconnect for ${playerName}`);
+                const room = await getRoom(code);
+
+                if (!room) {
+                    callback(false, undefined, 'room-not-found');
+                    return;
                 }
 
-                // Find existing player or check if they were in the room
-                const player = room.players.find(p => p.id === playerId);
+                if (isBanned(room, socket.data.deviceId)) {
+                    callback(false, undefined, 'banned');
+                    return;
+                }
 
-                if (player) {
-                    // Player still exists - update their socket ID
-                    const oldSocketId = player.id;
-                    player.id = socket.id;
+                // Cancel the pending removal, if any
+                if (await cancelPendingDisconnect(code, playerId)) {
+                    console.log(`🔄 Cancelled pending disconnect for ${playerName}`);
+                }
 
-                    // Update host if needed
-                    if (room.hostId === oldSocketId) {
-                        room.hostId = socket.id;
-                    }
+                // Player still exists - attach their new socket
+                const reconnected = await reconnectPlayer(code, playerId, socket.id);
 
-                    await saveRoom(room);
+                if (reconnected) {
+                    const { room: updatedRoom, player } = reconnected;
 
                     // Join socket room
-                    await socket.join(roomCode.toUpperCase());
-                    socketRooms.set(socket.id, roomCode.toUpperCase());
+                    await socket.join(code);
+                    socketPlayers.set(socket.id, { roomCode: code, playerId });
 
                     console.log(`🔄 ${playerName} rejoined room ${roomCode}`);
-                    callback(true, room);
+                    callback(true, projectRoomForPlayer(updatedRoom, playerId));
 
-                    // Send current game state
-                    io.to(roomCode.toUpperCase()).emit('room-updated', room);
+                    if (reconnected.hostReturned) {
+                        console.log(`👑 ${playerName} is back as host of room ${roomCode}`);
+                        io.to(code).emit('host-changed', playerId, 'returned');
+                    }
 
-                    // If game is in progress, send the player's question
-                    if (room.gameState.phase === 'playing' && player.assignedQuestion) {
-                        socket.emit('your-turn', player.assignedQuestion);
+                    // Send current game state
+                    emitRoomUpdate(updatedRoom);
+
+                    // If it is the player's turn, send their question with the original deadline
+                    if (
+                        updatedRoom.gameState.phase === 'playing' &&
+                        player.assignedQuestion &&
+                        !player.hasAnswered &&
+                        updatedRoom.gameState.deadline &&
+                        isPlayersTurn(updatedRoom, player)
+                    ) {
+                        socket.emit('your-turn', player.assignedQuestion, updatedRoom.gameState.deadline, getPreviousAnswer(updatedRoom, player));
                     }
                 } else {
-                    // Player was removed - try to rejoin as new player if in lobby
-                    if (room.gameState.phase === 'lobby') {
-                        const result = await joinRoom(roomCode.toUpperCase(), socket.id, playerName);
-                        if (result.success && result.room) {
-                            await socket.join(roomCode.toUpperCase());
-                            socketRooms.set(socket.id, roomCode.toUpperCase());
-                            callback(true, result.room);
-                            io.to(roomCode.toUpperCase()).emit('room-updated', result.room);
-                        } else {
-                            callback(false, undefined, result.error || 'Failed to rejoin');
-                        }
+                    // Player was removed - rejoin as a new player (pending if a game is running).
+                    // Their seat is gone, so a private room asks for its passphrase again.
+                    const result = await joinRoom(code, socket.id, playerName, { deviceId: socket.data.deviceId });
+                    if (result.success && result.room && result.player) {
+                        await socket.join(code);
+                        socketPlayers.set(socket.id, { roomCode: code, playerId: result.player.id });
+                        callback(true, projectRoomForPlayer(result.room, result.player.id), undefined, {
+                            playerId: result.player.id,
+                            reconnectToken: issueReconnectToken(result.room, result.player.id)
+                        });
+                        emitRoomUpdate(result.room);
+                        syncAutoStartTimer(result.room);
                     } else {
-                        callback(false, undefined, 'Game already in progress');
+                        callback(false, undefined, result.error ?? 'failed');
                     }
                 }
             } catch (error) {
                 console.error('Error rejoining room:', error);
-                callback(false, undefined, 'Failed to rejoin room');
+                callback(false, undefined, 'failed');
             }
         });
 
         // START GAME
         socket.on('start-game', async () => {
             try {
-                const roomCode = socketRooms.get(socket.id);
-                if (!roomCode) return;
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
 
-                const room = await getRoom(roomCode);
-                if (!room || room.hostId !== socket.id) {
-                    socket.emit('error', 'Only host can start the game');
+                const result = await startGame(roomCode, seat.playerId);
+                if (!result.success || !result.room) {
+                    socket.emit('error', result.error || 'Failed to start game');
                     return;
                 }
 
-                const updatedRoom = await startGame(roomCode);
-                if (!updatedRoom) {
-                    socket.emit('error', 'Failed to start game');
+                console.log(`🎯 Game started in room ${roomCode}`);
+                beginRound(result.room);
+            } catch (error: any) {
+                console.error('Error starting game:', error);
+                socket.emit('error', error.message || 'Failed to start game');
+            }
+        });
+
+        // TOGGLE READY
+        socket.on('toggle-ready', async () => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
+
+                const result = await toggleReady(roomCode, seat.playerId);
+                if (!result.success || !result.room) {
+                    socket.emit('error', result.error || 'Failed to change ready state');
                     return;
                 }
 
-                console.log(`🎯 Game started in room ${roomCode}`);
+                emitRoomUpdate(result.room);
+                syncAutoStartTimer(result.room);
+            } catch (error) {
+                console.error('Error toggling ready:', error);
+                socket.emit('error', 'Failed to change ready state');
+            }
+        });
 
-                // Notify all players
-                io.to(roomCode).emit('game-started', updatedRoom);
+        // SET AWAY (tab hidden or idle)
+        socket.on('set-away', async (away) => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
 
-                // Notify each player of their question
-                updatedRoom.players.forEach(player => {
-                    if (player.assignedQuestion) {
-                        io.to(player.id).emit('your-turn', player.assignedQuestion);
-                    }
-                });
-            } catch (error: any) {
-                console.error('Error starting game:', error);
-                socket.emit('error', error.message || 'Failed to start game');
+                const updatedRoom = await setAway(seat.roomCode, seat.playerId, !!away);
+                if (updatedRoom) emitRoomUpdate(updatedRoom);
+            } catch (error) {
+                console.error('Error updating presence:', error);
             }
         });
 
         // SUBMIT ANSWER
         socket.on('submit-answer', async (answer) => {
             try {
-                const roomCode = socketRooms.get(socket.id);
-                if (!roomCode) return;
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
 
-                const result = await submitAnswer(roomCode, socket.id, answer);
+                const result = await submitAnswer(roomCode, seat.playerId, answer);
 
                 if (!result.success || !result.room) {
                     socket.emit('error', result.error || 'Failed to submit answer');
@@ -200,19 +559,14 @@ export function setupSocketHandlers(io: any) {
                 console.log(`✍️ Answer submitted in room ${roomCode}`);
 
                 // Update room state
-                io.to(roomCode).emit('room-updated', result.room);
+                emitRoomUpdate(result.room);
 
                 // If all answers are in, trigger reveal
                 if (result.shouldReveal) {
-                    const revealData = generateReveal(result.room);
-                    if (revealData) {
-                        console.log(`🎉 Revealing in room ${roomCode}: ${revealData.sentence}`);
-
-                        // Dramatic pause before reveal
-                        setTimeout(() => {
-                            io.to(roomCode).emit('reveal', revealData);
-                        }, 1000);
-                    }
+                    revealRound(result.room);
+                } else if (result.turnAdvanced) {
+                    // Chain mode: the next slot's writers are up
+                    announceTurn(result.room);
                 } else {
                     // Notify player to wait
                     socket.emit('waiting-for-others');
@@ -223,117 +577,260 @@ export function setupSocketHandlers(io: any) {
             }
         });
 
-        // NEW ROUND
-        socket.on('new-round', async () => {
+        // SKIP ANSWER
+        socket.on('skip-answer', async () => {
             try {
-                const roomCode = socketRooms.get(socket.id);
-                if (!roomCode) return;
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
 
-                const room = await getRoom(roomCode);
-                if (!room || room.hostId !== socket.id) {
-                    socket.emit('error', 'Only host can start new round');
+                const result = await skipAnswer(roomCode, seat.playerId);
+
+                if (!result.success || !result.room) {
+                    socket.emit('error', result.error || 'Failed to skip');
                     return;
                 }
 
-                const updatedRoom = await startNewRound(roomCode);
-                if (!updatedRoom) {
-                    socket.emit('error', 'Failed to start new round');
-                    return;
+                console.log(`🎲 Answer skipped in room ${roomCode}, filled from the word bank`);
+
+                emitRoomUpdate(result.room);
+
+                if (result.shouldReveal) {
+                    revealRound(result.room);
+                } else if (result.turnAdvanced) {
+                    announceTurn(result.room);
+                } else {
+                    socket.emit('waiting-for-others');
                 }
+            } catch (error) {
+                console.error('Error skipping answer:', error);
+                socket.emit('error', 'Failed to skip');
+            }
+        });
 
-                console.log(`🔄 New round started in room ${roomCode}`);
+        // CAST VOTE
+        socket.on('cast-vote', async (questionType) => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
 
-                // Notify all players
-                io.to(roomCode).emit('game-started', updatedRoom);
+                const result = await castVote(roomCode, seat.playerId, questionType);
 
-                // Notify each player of their new question
-                updatedRoom.players.forEach(player => {
-                    if (player.assignedQuestion) {
-                        io.to(player.id).emit('your-turn', player.assignedQuestion);
-                    }
-                });
+                if (!result.success || !result.room) {
+                    socket.emit('error', result.error || 'Failed to vote');
+                    return;
+                }
+
+                if (result.votingClosed) {
+                    clearRoundTimer(roomCode);
+                    console.log(`🗳️ Everyone voted in room ${roomCode}`);
+                }
+
+                emitRoomUpdate(result.room);
             } catch (error) {
+                console.error('Error casting vote:', error);
+                socket.emit('error', 'Failed to vote');
+            }
+        });
+
+        // NEW ROUND
+        socket.on('new-round', async () => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
+
+                const result = await startNewRound(roomCode, seat.playerId);
+                if (!result.success || !result.room) {
+                    socket.emit('error', result.error || 'Failed to start new round');
+                    return;
+                }
+
+                console.log(`🔄 New round started in room ${roomCode}`);
+                beginRound(result.room);
+            } catch (error: any) {
                 console.error('Error starting new round:', error);
-                socket.emit('error', 'Failed to start new round');
+                socket.emit('error', error.message || 'Failed to start new round');
             }
         });
 
         // LEAVE ROOM (Explicit)
         socket.on('leave-room', async () => {
             try {
-                const roomCode = socketRooms.get(socket.id);
-                if (!roomCode) return;
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode, playerId } = seat;
 
-                console.log(`👋 Player left explicitly: ${socket.id} from room ${roomCode}`);
+                console.log(`👋 Player left explicitly: ${playerId} from room ${roomCode}`);
 
                 // Remove from socket room
                 socket.leave(roomCode);
-                socketRooms.delete(socket.id);
+                socketPlayers.delete(socket.id);
 
                 // Update room state (this handles host reassignment)
-                const updatedRoom = await removePlayer(roomCode, socket.id);
+                await handlePlayerRemoved(roomCode, playerId, await removePlayer(roomCode, playerId));
+            } catch (error) {
+                console.error('Error leaving room:', error);
+            }
+        });
 
-                if (updatedRoom) {
-                    io.to(roomCode).emit('player-left', socket.id);
-                    io.to(roomCode).emit('room-updated', updatedRoom);
-                } else {
-                    // Room is empty, delete it
-                    await deleteRoom(roomCode);
-                    console.log(`🗑️ Room ${roomCode} deleted (empty)`);
+        // TRANSFER HOST
+        socket.on('transfer-host', async (newHostId) => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
+
+                const result = await transferHost(roomCode, seat.playerId, newHostId);
+                if (!result.success || !result.room) {
+                    socket.emit('error', result.error || 'Failed to hand over the room');
+                    return;
                 }
+
+                console.log(`👑 Host of room ${roomCode} handed over to ${newHostId}`);
+                io.to(roomCode).emit('host-changed', newHostId, 'transfer');
+                emitRoomUpdate(result.room);
             } catch (error) {
-                console.error('Error leaving room:', error);
+                console.error('Error transferring host:', error);
+                socket.emit('error', 'Failed to hand over the room');
             }
         });
 
-        // KICK PLAYER
-        socket.on('kick-player', async (playerId) => {
+        // SET ROLE (co-hosts and spectators)
+        socket.on('set-role', async (playerId, role) => {
             try {
-                const roomCode = socketRooms.get(socket.id);
-                if (!roomCode) return;
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
 
-                const room = await getRoom(roomCode);
-                if (!room || room.hostId !== socket.id) {
-                    socket.emit('error', 'Only host can kick players');
+                const result = await setPlayerRole(roomCode, seat.playerId, playerId, role);
+                if (!result.success || !result.room) {
+                    socket.emit('error', result.error || 'Failed to change role');
                     return;
                 }
 
-                // Notify kicked player
-                io.to(playerId).emit('kicked');
+                console.log(`🎭 Player ${playerId} is now ${role} in room ${roomCode}`);
+                emitRoomUpdate(result.room);
+                syncAutoStartTimer(result.room);
+            } catch (error) {
+                console.error('Error changing role:', error);
+                socket.emit('error', 'Failed to change role');
+            }
+        });
 
-                // Remove from socket room
-                const kickedSocket = io.sockets.sockets.get(playerId);
-                if (kickedSocket) {
-                    kickedSocket.leave(roomCode);
-                    socketRooms.delete(playerId);
+        // KICK PLAYER
+        socket.on('kick-player', async (playerId, ban) => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
+
+                const result = await kickPlayer(roomCode, seat.playerId, playerId, !!ban);
+                if (!result.success || !result.kicked) {
+                    socket.emit('error', result.error || 'Failed to kick player');
+                    return;
                 }
+                const { kicked, banned } = result;
 
-                // Update room state
-                const updatedRoom = await removePlayer(roomCode, playerId);
-                if (updatedRoom) {
-                    io.to(roomCode).emit('player-left', playerId);
-                    io.to(roomCode).emit('room-updated', updatedRoom);
+                // Their grace period has nothing left to remove
+                await cancelPendingDisconnect(roomCode, playerId);
+
+                if (kicked.socketId) {
+                    // Notify kicked player
+                    io.to(kicked.socketId).emit('kicked', banned);
+
+                    // Remove from socket room, wherever the socket is connected
+                    io.in(kicked.socketId).socketsLeave(roomCode);
+                    socketPlayers.delete(kicked.socketId);
+                    if (isClustered()) {
+                        io.serverSideEmit('release-seat', kicked.socketId);
+                    }
                 }
 
-                console.log(`👢 Player ${playerId} kicked from room ${roomCode}`);
+                await handlePlayerRemoved(roomCode, playerId, result.removal ?? null);
+
+                console.log(`👢 Player ${playerId} ${banned ? 'banned' : 'kicked'} from room ${roomCode}`);
             } catch (error) {
                 console.error('Error kicking player:', error);
                 socket.emit('error', 'Failed to kick player');
             }
         });
 
+        // LIFT BAN
+        socket.on('lift-ban', async (banId) => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
+
+                const room = await getRoom(roomCode);
+                if (!room || !can(room, seat.playerId, 'kick-player')) {
+                    socket.emit('error', 'Only host can lift bans');
+                    return;
+                }
+
+                const updatedRoom = await liftBan(roomCode, banId);
+                if (!updatedRoom) {
+                    socket.emit('error', 'Ban not found');
+                    return;
+                }
+
+                console.log(`🕊️ Ban ${banId} lifted in room ${roomCode}`);
+                emitRoomUpdate(updatedRoom);
+            } catch (error) {
+                console.error('Error lifting ban:', error);
+                socket.emit('error', 'Failed to lift ban');
+            }
+        });
+
+        // FORCE REVEAL (host gives up on slots nobody can write)
+        socket.on('force-reveal', async () => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
+
+                const room = await getRoom(roomCode);
+                if (!room || !can(room, seat.playerId, 'force-reveal')) {
+                    socket.emit('error', 'Only host can force the reveal');
+                    return;
+                }
+
+                const updatedRoom = await forceReveal(roomCode);
+                if (!updatedRoom) {
+                    socket.emit('error', 'Nothing to reveal');
+                    return;
+                }
+
+                console.log(`⏩ Host forced the reveal in room ${roomCode}`);
+                emitRoomUpdate(updatedRoom);
+                revealRound(updatedRoom);
+            } catch (error) {
+                console.error('Error forcing reveal:', error);
+                socket.emit('error', 'Failed to force the reveal');
+            }
+        });
+
         // RESET TO LOBBY
         socket.on('reset-to-lobby', async (newSettings) => {
             try {
-                const roomCode = socketRooms.get(socket.id);
-                if (!roomCode) return;
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
 
                 const room = await getRoom(roomCode);
-                if (!room || room.hostId !== socket.id) {
+                if (!room || !can(room, seat.playerId, 'reset-to-lobby')) {
                     socket.emit('error', 'Only host can reset to lobby');
                     return;
                 }
 
+                const changesSettings = !!newSettings && Object.keys(newSettings).length > 0;
+                if (changesSettings && !can(room, seat.playerId, 'change-settings')) {
+                    socket.emit('error', 'Only host can change the settings');
+                    return;
+                }
+
                 const updatedRoom = await resetToLobby(roomCode, newSettings);
                 if (!updatedRoom) {
                     socket.emit('error', 'Failed to reset to lobby');
@@ -341,72 +838,139 @@ export function setupSocketHandlers(io: any) {
                 }
 
                 console.log(`🔄 Game reset to lobby in room ${roomCode}`);
+                clearRoundTimer(roomCode);
 
                 // Notify all players to return to lobby
                 io.to(roomCode).emit('game-reset');
-                io.to(roomCode).emit('room-updated', updatedRoom);
+                emitRoomUpdate(updatedRoom);
             } catch (error) {
                 console.error('Error resetting to lobby:', error);
                 socket.emit('error', 'Failed to reset to lobby');
             }
         });
 
-        // DISCONNECT
-        socket.on('disconnect', async () => {
+        // SET CUSTOM PACK (host-authored questions and sentence template)
+        socket.on('set-custom-pack', async (pack, callback) => {
             try {
-                const roomCode = socketRooms.get(socket.id);
-                if (!roomCode) return;
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
 
-                console.log(`🔌 Client disconnected: ${socket.id} from room ${roomCode}`);
+                const room = await getRoom(roomCode);
+                if (!room || !can(room, seat.playerId, 'edit-questions')) {
+                    callback(false, 'Only host can change the questions');
+                    return;
+                }
+
+                const result = await setCustomPack(roomCode, pack);
+                if (!result.success || !result.room) {
+                    callback(false, result.error || 'Failed to save questions');
+                    return;
+                }
+
+                console.log(`📝 Custom questions set in room ${roomCode}`);
+                callback(true);
+                emitRoomUpdate(result.room);
+                syncAutoStartTimer(result.room);
+            } catch (error) {
+                console.error('Error setting custom pack:', error);
+                callback(false, 'Failed to save questions');
+            }
+        });
+
+        // SET PASSPHRASE (private rooms)
+        socket.on('set-passphrase', async (passphrase, callback) => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode } = seat;
 
-                // Get the room to find the player
                 const room = await getRoom(roomCode);
-                if (!room) {
-                    socketRooms.delete(socket.id);
+                if (!room || !can(room, seat.playerId, 'change-settings')) {
+                    callback(false, 'Only host can change the passphrase');
                     return;
                 }
 
-                const player = room.players.find(p => p.id === socket.id);
-                const pendingKey = `${roomCode}-${socket.id}`;
+                const result = await setPassphrase(roomCode, passphrase);
+                if (!result.success || !result.room) {
+                    callback(false, result.error || 'Failed to change the passphrase');
+                    return;
+                }
 
-                // Set up delayed removal with grace period
-                const timeout = setTimeout(async () => {
-                    try {
-                        console.log(`⏰ Grace period expired for ${player?.name || socket.id} in room ${roomCode}`);
-                        pendingDisconnects.delete(pendingKey);
+                console.log(`🔒 Passphrase ${result.room.hasPassphrase ? 'set' : 'removed'} in room ${roomCode}`);
+                callback(true);
+                emitRoomUpdate(result.room);
+            } catch (error) {
+                console.error('Error setting passphrase:', error);
+                callback(false, 'Failed to change the passphrase');
+            }
+        });
+
+        // LIST PUBLIC ROOMS (room browser)
+        socket.on('list-public-rooms', async (callback) => {
+            try {
+                callback(await listPublicRooms());
+            } catch (error) {
+                console.error('Error listing public rooms:', error);
+                callback([]);
+            }
+        });
+
+        // GET HISTORY (previous stories this session)
+        socket.on('get-history', async () => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
 
-                        const currentRoom = await getRoom(roomCode);
-                        if (!currentRoom) return;
+                socket.emit('history', await getRoundHistory(seat.roomCode));
+            } catch (error) {
+                console.error('Error fetching history:', error);
+                socket.emit('error', 'Failed to load previous stories');
+            }
+        });
 
-                        // Check if player is still in the room (might have rejoined with new socket)
-                        const stillInRoom = currentRoom.players.find(p => p.id === socket.id);
-                        if (!stillInRoom) return; // Player already removed or rejoined with new ID
+        // DISCONNECT
+        socket.on('disconnect', async () => {
+            try {
+                const seat = socketPlayers.get(socket.id);
+                if (!seat) return;
+                const { roomCode, playerId } = seat;
+                socketPlayers.delete(socket.id);
 
-                        const updatedRoom = await removePlayer(roomCode, socket.id);
+                console.log(`🔌 Client disconnected: ${socket.id} from room ${roomCode}`);
 
-                        if (updatedRoom) {
-                            // Notify remaining players
-                            io.to(roomCode).emit('player-left', socket.id);
-                            io.to(roomCode).emit('room-updated', updatedRoom);
-                        } else {
-                            // Room is empty, delete it
-                            await deleteRoom(roomCode);
-                            console.log(`🗑️ Room ${roomCode} deleted (empty)`);
-                        }
-                    } catch (error) {
-                        console.error('Error in delayed disconnect:', error);
-                    }
-                }, DISCONNECT_GRACE_PERIOD);
+                // Get the room to find the player
+                const room = await getRoom(roomCode);
+                if (!room) return;
 
-                pendingDisconnects.set(pendingKey, {
-                    roomCode,
-                    playerId: socket.id,
-                    timeout
-                });
+                const player = room.players.find(p => p.id === playerId);
 
-                console.log(`⏳ Grace period started for ${player?.name || socket.id} (${DISCONNECT_GRACE_PERIOD / 1000}s)`);
+                // Already reconnected on another socket (e.g. a fast page reload)
+                if (!player || player.socketId !== socket.id) return;
 
-                socketRooms.delete(socket.id);
+                // Set up delayed removal with grace period; any instance can carry it out
+                await getScheduler().schedule(disconnectJobKey(roomCode, playerId), {
+                    type: 'remove-player',
+                    roomCode,
+                    playerId,
+                    socketId: socket.id,
+                    playerName: player.name
+                }, Date.now() + DISCONNECT_GRACE_PERIOD);
+
+                console.log(`⏳ Grace period started for ${player.name} (${DISCONNECT_GRACE_PERIOD / 1000}s)`);
+
+                // Let the others see they're gone for now rather than a seemingly active teammate
+                const reconnectingRoom = await markReconnecting(roomCode, playerId, socket.id);
+
+                // Someone stands in for a dropped host so the room isn't stuck waiting
+                const covered = await coverForAbsentHost(roomCode, playerId);
+                if (covered) {
+                    console.log(`👑 ${covered.newHost.name} stands in as host of room ${roomCode}`);
+                    io.to(roomCode).emit('host-changed', covered.newHost.id, 'disconnected');
+                    emitRoomUpdate(covered.room);
+                } else if (reconnectingRoom) {
+                    emitRoomUpdate(reconnectingRoom);
+                }
             } catch (error) {
                 console.error('Error handling disconnect:', error);
             }
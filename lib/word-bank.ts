@@ -0,0 +1,108 @@
+import type { WordBankCategory } from '@/types/game';
+
+/**
+ * Bundled filler answers, used when a slot has to be filled without its writer
+ * (timeouts, skips and forced reveals). Written to slot into the pack templates
+ * as-is: lowercase (the sentence formatter capitalizes the start), and
+ * companions and places without their preposition.
+ */
+export const WORD_BANKS: Record<WordBankCategory, string[]> = {
+    person: [
+        'a confused pirate',
+        'your grandma',
+        'the school principal',
+        'a retired magician',
+        'a very tall toddler',
+        'the mayor',
+        'a sleepy astronaut',
+        'your dentist',
+        'a famous opera singer',
+        'the pizza delivery guy',
+        'a suspicious llama',
+        'three raccoons in a trench coat'
+    ],
+    companion: [
+        'a talking parrot',
+        'the neighbours',
+        'a cardboard cutout of Elvis',
+        'their imaginary friend',
+        'a marching band',
+        'a grumpy goose',
+        'the entire football team',
+        'a robot vacuum',
+        'their ex',
+        'a group of mimes',
+        'a very polite bear',
+        'twelve substitute teachers'
+    ],
+    place: [
+        'the moon',
+        'a karaoke bar',
+        'the bottom of a swimming pool',
+        'IKEA',
+        'a haunted lighthouse',
+        'the back of a taxi',
+        'a wedding buffet',
+        'the town library',
+        'a submarine',
+        'the top of a Ferris wheel',
+        'a petting zoo',
+        'the dentist\'s waiting room'
+    ],
+    manner: [
+        'very loudly',
+        'in slow motion',
+        'while crying a little',
+        'without blinking',
+        'wearing roller skates',
+        'with great confidence',
+        'in complete silence',
+        'backwards',
+        'like nobody was watching',
+        'humming the national anthem',
+        'while eating soup',
+        'dressed as a banana'
+    ],
+    action: [
+        'ate a whole wedding cake',
+        'started a conga line',
+        'adopted a pigeon',
+        'won a staring contest',
+        'fell asleep standing up',
+        'sold the family car',
+        'built a snowman',
+        'proposed to a mannequin',
+        'learned to juggle',
+        'stole a traffic cone'
+    ],
+    reason: [
+        'it was a full moon',
+        'the cat told them to',
+        'nobody said they couldn\'t',
+        'it seemed like a good idea at the time',
+        'the horoscope said so',
+        'they lost a bet',
+        'the microwave was broken',
+        'it was Tuesday'
+    ],
+    anything: [
+        'a rubber chicken',
+        'absolutely nothing',
+        'a suspicious sandwich',
+        'the last slice of pizza',
+        'a box of kittens',
+        'a mysterious envelope',
+        'an inflatable castle',
+        'way too much glitter'
+    ]
+};
+
+/**
+ * Pick a filler for a slot, avoiding answers already used in the same story
+ */
+export function pickFiller(category: WordBankCategory = 'anything', exclude: string[] = []): string {
+    const bank = WORD_BANKS[category] ?? WORD_BANKS.anything;
+    const fresh = bank.filter(word => !exclude.includes(word));
+    const options = fresh.length > 0 ? fresh : bank;
+    return options[Math.floor(Math.random() * options.length)];
+}
@@ -3,9 +3,10 @@ import { createServer } from 'http';
 import { parse } from 'url';
 import next from 'next';
 import { Server } from 'socket.io';
-import { connectRedis } from './lib/redis-client';
+import { connectRooms } from './lib/rooms';
+import { attachClusterAdapter } from './lib/cluster';
 import { setupSocketHandlers } from './lib/socket-handler';
-import type { ServerToClientEvents, ClientToServerEvents } from './types/game';
+import type { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData } from './types/game';
 
 // Load environment variables from .env file
 config();
@@ -30,7 +31,7 @@ app.prepare().then(async () => {
     });
 
     // Initialize Socket.IO
-    const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(httpServer, {
         cors: {
             origin: dev ? 'http://localhost:3000' : process.env.NEXT_PUBLIC_APP_URL,
             methods: ['GET', 'POST']
@@ -38,12 +39,15 @@ app.prepare().then(async () => {
         path: '/api/socket'
     });
 
-    // Connect to Redis
+    // Connect the room store (Redis, or memory when no Redis is configured)
     try {
-        await connectRedis();
-        console.log('✅ Redis connected');
+        const rooms = await connectRooms();
+        console.log(`✅ Room store ready (${rooms.name})`);
+        if (await attachClusterAdapter(io)) {
+            console.log('✅ Socket.IO Redis adapter attached');
+        }
     } catch (error) {
-        console.error('❌ Failed to connect to Redis:', error);
+        console.error('❌ Failed to connect the room store:', error);
         console.error('Please check your .env file and Redis configuration');
         process.exit(1);
     }
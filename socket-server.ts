@@ -1,9 +1,10 @@
 import { config } from 'dotenv';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
-import { connectRedis } from './lib/redis-client';
+import { connectRooms } from './lib/rooms';
+import { attachClusterAdapter } from './lib/cluster';
 import { setupSocketHandlers } from './lib/socket-handler';
-import type { ServerToClientEvents, ClientToServerEvents } from './types/game';
+import type { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData } from './types/game';
 
 // Load environment variables
 config();
@@ -19,6 +20,7 @@ console.log(`   PORT: ${PORT}`);
 console.log(`   ALLOWED_ORIGINS: ${ALLOWED_ORIGINS.join(', ')}`);
 console.log(`   NODE_ENV: ${process.env.NODE_ENV || 'development'}`);
 console.log(`   REDIS_URL: ${process.env.REDIS_URL ? '✅ Set' : '❌ Not set'}`);
+console.log(`   ROOM_STORE: ${process.env.ROOM_STORE || '(default)'}`);
 
 // Create standalone HTTP server for Socket.IO
 const httpServer = createServer((req, res) => {
@@ -34,7 +36,7 @@ const httpServer = createServer((req, res) => {
 });
 
 // Initialize Socket.IO with CORS
-const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(httpServer, {
     cors: {
         origin: ALLOWED_ORIGINS,
         methods: ['GET', 'POST'],
@@ -44,11 +46,14 @@ const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
     allowEIO3: true
 });
 
-// Connect to Redis and setup handlers
+// Connect the room store and setup handlers
 async function startServer() {
     try {
-        await connectRedis();
-        console.log('✅ Redis connected');
+        const rooms = await connectRooms();
+        console.log(`✅ Room store ready (${rooms.name})`);
+        if (await attachClusterAdapter(io)) {
+            console.log('✅ Socket.IO Redis adapter attached');
+        }
 
         setupSocketHandlers(io);
         console.log('✅ Socket.IO handlers registered');
@@ -1,30 +1,148 @@
-export type QuestionType = 'who' | 'withWhom' | 'where' | 'how';
+// Slot id within a question pack (e.g. 'who', 'where')
+export type QuestionType = string;
 
-export type GamePhase = 'lobby' | 'playing' | 'reveal';
+// Word bank used to fill a slot nobody answered ('anything' when a slot has no category)
+export type WordBankCategory = 'person' | 'companion' | 'place' | 'manner' | 'action' | 'reason' | 'anything';
 
-export interface Player {
+export interface QuestionSlot {
+    id: QuestionType;
+    label: string; // Shown to the writer, e.g. 'Who?'
+    placeholder: string; // Hint shown in the empty answer box
+    preposition?: string; // Prepended to the answer unless the writer already typed a preposition
+    lowercase?: boolean; // Lowercase the answer's first letter (slot sits mid-sentence)
+    category?: WordBankCategory;
+}
+
+export interface QuestionPack {
     id: string;
     name: string;
-    isHost: boolean;
+    slots: QuestionSlot[]; // Ordered; one writer per slot
+    template: string; // Sentence with a {slotId} placeholder for every slot
+}
+
+export type GamePhase = 'lobby' | 'playing' | 'voting' | 'reveal';
+
+// What a player may do in the room (see lib/permissions.ts). Spectators watch and
+// vote but are never given a slot to write.
+export type PlayerRole = 'host' | 'co-host' | 'player' | 'spectator';
+
+// Whether a player is there right now: 'connected', 'reconnecting' (their connection
+// dropped and the grace period is running) or 'away' (tab hidden or idle)
+export type PlayerPresence = 'connected' | 'reconnecting' | 'away';
+
+export interface Player {
+    id: string; // Stable, opaque player id (not the socket id)
+    socketId?: string; // Server-only: the player's current socket, stripped from room views
+    deviceId?: string; // Server-only: the browser's device id from the handshake, used for bans
+    name: string;
+    role: PlayerRole;
+    isHost: boolean; // Same as role === 'host'
     isReady: boolean;
+    presence?: PlayerPresence; // Unset counts as connected
     assignedQuestion?: QuestionType;
     hasAnswered?: boolean;
-    previousQuestion?: QuestionType; // Track previous question to prevent repeats
+    lastSlot?: QuestionType; // Slot the player wrote most recently (kept while they sit rounds out), to prevent repeats
+    roundsPlayed?: number; // Rounds the player has written a slot in since the lobby, for fair rotation
+    isWriting?: boolean; // Set on per-player room views: has a slot this round (without revealing which)
+    hasVoted?: boolean;
+    groupIndex?: number; // Story group the player writes for this round (unset while watching)
+    isTurn?: boolean; // Set on per-player room views in chain mode: writing the slot that is open now
+    isPending?: boolean; // Joined mid-game: watches until the next round starts
+}
+
+// Host-authored pack as sent from the Lobby; validated before it is stored on the room
+export interface CustomPackInput {
+    slots: { id: string; label: string; placeholder?: string }[];
+    template: string;
 }
 
 export interface RoomSettings {
     maxPlayers: number;
     language: string;
     timerSeconds: number; // Time allowed per answer (30, 60, 90, 120)
+    packId: string; // Question pack used for every round
+    voteSeconds: number; // Length of the voting phase after each reveal (0 skips voting)
+    voteTieBreak: VoteTieBreak;
+    parallelGroups: boolean; // Split big rooms into several groups that each write their own story
+    chainMode: boolean; // Slots are written one at a time in questionOrder, each writer seeing only the previous answer
+    autoStart: boolean; // Start by itself after a short countdown once every player is ready
+    hostSuccession: HostSuccession;
+    visibility: RoomVisibility;
 }
 
+// Public rooms are listed in the room browser while they are open lobbies;
+// private rooms are joined by code only, optionally with a passphrase
+export type RoomVisibility = 'private' | 'public';
+
+// Who takes over when the host leaves or drops out:
+// 'longest-present' - the player who joined first, 'most-active' - the player who
+// has written the most rounds (then scored the most), 'random' - anyone
+export type HostSuccession = 'longest-present' | 'most-active' | 'random';
+
+// Why the host changed: handed over, the host left, the host's connection dropped
+// (someone stands in until they are back) or the host came back
+export type HostChangeReason = 'transfer' | 'left' | 'disconnected' | 'returned';
+
+// How the round-winner bonus is handed out when slots tie on votes
+// - share: every tied slot's author gets the bonus
+// - earliest: only the author of the earliest submitted tied answer gets it
+// - none: nobody gets the bonus on a tie
+export type VoteTieBreak = 'share' | 'earliest' | 'none';
+
+export interface AnswerEntry {
+    playerId: string; // Empty when nobody wrote the slot (auto-filled after the writer left)
+    playerName: string; // Kept so attribution survives the author leaving before the reveal
+    answer: string;
+    submittedAt: number;
+    autoFilled?: boolean; // Drawn from the word bank (timed out, skipped or forced reveal)
+}
+
+// One story group's answers, keyed by slot
+export type GroupAnswers = Partial<Record<QuestionType, AnswerEntry>>;
+
 export interface GameState {
     phase: GamePhase;
     currentRound: number;
-    answers: Partial<Record<QuestionType, { playerId: string; answer: string }>>;
-    currentTurnIndex: number;
+    answers: GroupAnswers[]; // One entry per story group this round
+    currentTurnIndex: number; // Chain mode: index into questionOrder of the slot being written
     questionOrder: QuestionType[];
-    rotationIndex: number; // Tracks which group of 4 players should answer (for rotation)
+    seed?: number; // Server-only: base seed for slot assignment (clients could work out every assignment from it)
+    deadline?: number; // Epoch ms when the current round's (chain mode: turn's) answers are due (server-authoritative)
+    reveal?: RevealData; // Canonical stories for the round, set when the answers are all in
+    roundStartedAt?: number;
+    orphanedSlots?: { group: number; question: QuestionType }[]; // Slots whose writer left with no spectator to take over
+    autoStartAt?: number; // Lobby only: when the ready-check countdown ends and the game starts
+    votes: Record<string, string>; // Voter id -> RevealSlot key voted for (only the recipient's own vote while voting)
+    voteDeadline?: number; // Epoch ms when voting closes
+    voteResult?: VoteResult; // Set when voting closes
+}
+
+export interface VoteResult {
+    tally: Record<string, number>; // RevealSlot key -> votes
+    winners: string[]; // Keys of the slots that earned the winner bonus
+    pointsAwarded: Record<string, number>; // Player id -> points earned this round
+}
+
+// A player banned from a room. The device id is what keeps them out, so a new name doesn't help.
+export interface BanEntry {
+    id: string;
+    playerName: string; // Name they had when banned, to recognise them in the ban list
+    deviceId?: string; // Server-only, stripped from room views
+    bannedAt: number;
+}
+
+// Why joining or rejoining a room failed; the client picks the message to show
+export type JoinError = 'room-not-found' | 'room-full' | 'name-taken' | 'banned' | 'passphrase-required' | 'wrong-passphrase' | 'too-many-attempts' | 'invalid-session' | 'failed';
+
+// An open public lobby, as listed in the room browser
+export interface PublicRoomSummary {
+    code: string;
+    hostName: string;
+    playerCount: number;
+    maxPlayers: number;
+    packName: string;
+    language: string;
+    createdAt: number;
 }
 
 export interface Room {
@@ -33,40 +151,107 @@ export interface Room {
     players: Player[];
     settings: RoomSettings;
     gameState: GameState;
+    absentHostId?: string; // Host in their disconnect grace window while another player stands in; back in charge if they return
+    standInRole?: Exclude<PlayerRole, 'host'>; // Role the standing-in host had before, given back when the host returns
+    bans?: BanEntry[]; // Kept until the room closes, across games
+    passphraseHash?: string; // Server-only: private rooms only, see lib/passphrase.ts
+    hasPassphrase?: boolean; // Joining needs the passphrase
+    customPack?: QuestionPack; // Host-authored pack, used when settings.packId is 'custom'
+    scores: Record<string, number>; // Player id -> points across rounds, cleared when the room returns to the lobby
+    lastScores?: Record<string, number>; // Final scores of the previous game, shown in the lobby
     createdAt: number;
 }
 
-export interface RevealData {
-    who: string;
-    withWhom: string;
-    where: string;
-    how: string;
+export interface RevealSlot {
+    key: string; // Unique across the round's stories
+    questionType: QuestionType;
+    label: string;
+    answer: string;
+    authorId: string;
+    authorName: string;
+    submittedAt: number;
+    missing?: boolean; // Nobody wrote it (the writer left before answering)
+    autoFilled?: boolean; // Drawn from the word bank instead of written
+}
+
+export interface RevealStory {
+    group: number;
+    slots: RevealSlot[]; // In pack order
     sentence: string;
 }
 
+export interface RevealData {
+    stories: RevealStory[]; // One per story group, revealed in order
+}
+
+// A revealed round, kept for "previous stories this session"
+export interface RoundRecord extends RevealData {
+    round: number;
+    startedAt: number;
+    revealedAt: number;
+}
+
+// Issued on create/join so the client can reclaim its seat after reconnecting
+export interface PlayerSession {
+    playerId: string;
+    reconnectToken: string;
+}
+
+// Optional extras when creating a room
+export interface CreateRoomOptions {
+    passphrase?: string | null; // Private rooms only
+    code?: string | null; // Host-chosen room code
+}
+
 // Socket.IO event types
 export interface ServerToClientEvents {
     'room-updated': (room: Room) => void;
-    'game-started': (room: Room) => void;
-    'your-turn': (question: QuestionType) => void;
+    'game-started': (room: Room, deadline: number) => void;
+    'your-turn': (question: QuestionType, deadline: number, previousAnswer?: string) => void; // previousAnswer only in chain mode
     'waiting-for-others': () => void;
     'reveal': (data: RevealData) => void;
     'player-joined': (player: Player) => void;
     'player-left': (playerId: string) => void;
     'error': (message: string) => void;
-    'kicked': () => void;
+    'kicked': (banned: boolean) => void;
     'game-reset': () => void;
+    'host-changed': (hostId: string, reason: HostChangeReason) => void;
+    'history': (rounds: RoundRecord[]) => void; // Oldest first
 }
 
 export interface ClientToServerEvents {
-    'create-room': (playerName: string, settings: RoomSettings, callback: (roomCode: string, room?: Room) => void) => void;
-    'join-room': (roomCode: string, playerName: string, callback: (success: boolean, error?: string) => void) => void;
+    'create-room': (playerName: string, settings: RoomSettings, options: CreateRoomOptions, callback: (roomCode: string, room?: Room, session?: PlayerSession, error?: string) => void) => void;
+    'join-room': (roomCode: string, playerName: string, passphrase: string | null, callback: (success: boolean, error?: JoinError, session?: PlayerSession, room?: Room) => void) => void;
+    'quick-play': (playerName: string, language: string, callback: (success: boolean, error?: JoinError, session?: PlayerSession, room?: Room) => void) => void; // Join any public lobby in the language that needs players, or open one
     'leave-room': () => void;
-    'rejoin-room': (roomCode: string, playerId: string, playerName: string, callback: (success: boolean, room?: Room, error?: string) => void) => void;
+    'rejoin-room': (roomCode: string, playerId: string, playerName: string, callback: (success: boolean, room?: Room, error?: JoinError, session?: PlayerSession) => void) => void;
     'start-game': () => void;
     'submit-answer': (answer: string) => void;
+    'skip-answer': () => void; // Let the word bank fill the player's slot
     'new-round': () => void;
-    'kick-player': (playerId: string) => void;
-    'toggle-ready': () => void;
+    'kick-player': (playerId: string, ban?: boolean) => void; // ban keeps their device out of the room
+    'lift-ban': (banId: string) => void;
+    'transfer-host': (playerId: string) => void; // Host only: hand the room to another player
+    'set-role': (playerId: string, role: Exclude<PlayerRole, 'host'>) => void; // Host only: make a player a co-host, spectator or plain player again
+    'toggle-ready': () => void; // Lobby only
+    'set-away': (away: boolean) => void; // Tab hidden or idle, or back
     'reset-to-lobby': (newSettings?: Partial<RoomSettings>) => void; // Host resets game to lobby with optional new settings
+    'set-passphrase': (passphrase: string | null, callback: (success: boolean, error?: string) => void) => void; // Host, private rooms only; null removes it
+    'list-public-rooms': (callback: (rooms: PublicRoomSummary[]) => void) => void;
+    'set-custom-pack': (pack: CustomPackInput, callback: (success: boolean, error?: string) => void) => void;
+    'get-history': () => void;
+    'force-reveal': () => void; // Host: reveal now, with unwritten slots filled from the word bank
+    'cast-vote': (slotKey: string) => void;
+}
+
+// Between server instances (only sent when they share Redis)
+export interface InterServerEvents {
+    'release-seat': (socketId: string) => void; // The socket's player was kicked on another instance
+}
+
+// Per-socket data, filled in by the handshake middleware
+export interface SocketData {
+    roomCode?: string; // Seat claimed by a verified reconnect token
+    playerId?: string;
+    deviceId?: string; // Browser's persistent device id, sent with every handshake
 }